@@ -113,7 +113,8 @@ gulp.task("build-dts", () => {
     var proj = ts.createProject("tsconfig.json", { target: "es6" });
     var result = gulp.src(globs.build)
         .pipe(proj());
-    return result.dts.pipe(gulp.dest("dist/types"));
+    // the typings are also copied next to the modules, for importing modules that are not exported from the package entry
+    return result.dts.pipe(gulp.dest("dist/types")).pipe(gulp.dest("dist/lib"));
 });
 
 gulp.task("build", () => sequence("clean", "build-ts", "build-dts"));
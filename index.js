@@ -1 +1 @@
-module.exports = require("./dist/lib/sequential-task-queue.js");
\ No newline at end of file
+module.exports = require("./dist/lib/index.js");
\ No newline at end of file
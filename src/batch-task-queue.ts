@@ -0,0 +1,162 @@
+﻿import { SequentialTaskQueue, SequentialTaskQueueOptions, Scheduler, CancellationToken, TaskCancelledError, QueueClosedError } from "./sequential-task-queue";
+import { setTimer, clearTimer } from "./timers";
+
+/**
+ * Function that processes a batch of items, see {@link BatchTaskQueue}.
+ * It must return (or resolve to) an array containing the result for every item, in the same order as the items.
+ * An `Error` in the array rejects the promise of the corresponding item.
+ */
+export type BatchHandler<T, R> = (items: T[], token: CancellationToken) => R[] | PromiseLike<R[]>;
+
+/**
+ * Object used for passing configuration options to the {@link BatchTaskQueue} constructor.
+ */
+export interface BatchTaskQueueOptions extends SequentialTaskQueueOptions {
+    /**
+     * Maximum number of items in a batch. Default is 100.
+     */
+    maxBatchSize?: number;
+    /**
+     * Maximum time (in milliseconds) an item waits for more items to be added to its batch. Default is 0,
+     * i.e. items added synchronously are processed in the same batch.
+     */
+    maxWait?: number;
+}
+
+/**
+ * Task queue that collects items into batches, and processes the batches sequentially with a single handler function.
+ * A batch is pushed to the underlying {@link SequentialTaskQueue} when it reaches {@link BatchTaskQueueOptions.maxBatchSize} items,
+ * or {@link BatchTaskQueueOptions.maxWait} milliseconds after its first item was added.
+ */
+export class BatchTaskQueue<T, R = any> {
+
+    private handler: BatchHandler<T, R>;
+    private maxBatchSize: number;
+    private maxWait: number;
+    private scheduler: Scheduler;
+    private batch: Batch<T, R>;
+
+    /** The underlying queue that runs the batches. */
+    readonly queue: SequentialTaskQueue;
+
+    name: string;
+
+    /** Indicates if the queue has been closed. Calling {@link BatchTaskQueue.add} on a closed queue will result in an exception. */
+    get isClosed() {
+        return this.queue.isClosed;
+    }
+
+    /**
+     * Creates a new instance of {@link BatchTaskQueue}
+     * @param {Function} handler - The function that processes the batches.
+     * @param options - Configuration options for the task queue.
+    */
+    constructor(handler: BatchHandler<T, R>, options?: BatchTaskQueueOptions) {
+        if (!options)
+            options = {};
+        this.handler = handler;
+        this.name = options.name || "BatchTaskQueue";
+        this.maxBatchSize = options.maxBatchSize > 0 ? options.maxBatchSize : 100;
+        this.maxWait = options.maxWait || 0;
+        this.scheduler = options.scheduler || SequentialTaskQueue.defaultScheduler;
+        this.queue = new SequentialTaskQueue(Object.assign({}, options, { name: this.name }));
+    }
+
+    /**
+     * Adds an item to the current batch.
+     * @param item - The item to process.
+     * @returns {Promise} A promise that is resolved with the result of the item, or rejected if the handler failed,
+     * returned an `Error` for the item, or the batch was cancelled.
+     */
+    add(item: T): PromiseLike<R> {
+        if (this.queue.isClosed)
+            throw new QueueClosedError(this.name);
+        var batch = this.batch;
+        if (!batch) {
+            batch = this.batch = { items: [], callbacks: [] };
+            batch.handle = setTimer(this.scheduler, () => this.flush(), this.maxWait);
+        }
+        var result = new Promise<R>((resolve, reject) => {
+            batch.items.push(item);
+            batch.callbacks.push({ resolve: resolve, reject: reject });
+        });
+        if (batch.items.length >= this.maxBatchSize)
+            this.flush();
+        return result;
+    }
+
+    /**
+     * Pushes the current batch to the queue without waiting for more items.
+     */
+    flush() {
+        var batch = this.takeBatch();
+        if (!batch)
+            return;
+        var promise: PromiseLike<R[]>;
+        try {
+            promise = this.queue.push(this.handler, { args: [batch.items] });
+        } catch (e) {
+            // e.g. the queue is full, and its overflow strategy is "throw"
+            batch.callbacks.forEach(callback => callback.reject(e));
+            return;
+        }
+        promise.then(results => {
+            if (!Array.isArray(results) || results.length !== batch.items.length) {
+                var error = new Error(`${this.name}: The handler returned ${Array.isArray(results) ? results.length : "no"} results for ${batch.items.length} items`);
+                batch.callbacks.forEach(callback => callback.reject(error));
+                return;
+            }
+            results.forEach((result, i) => {
+                if (result instanceof Error)
+                    batch.callbacks[i].reject(result);
+                else
+                    batch.callbacks[i].resolve(result);
+            });
+        }, reason => {
+            batch.callbacks.forEach(callback => callback.reject(reason));
+        });
+    }
+
+    /** @see {@link SequentialTaskQueue.wait} */
+    wait(): PromiseLike<any> {
+        return this.queue.wait();
+    }
+
+    /**
+     * Cancels the running and waiting batches, and rejects the items of the current batch with a {@link TaskCancelledError}.
+     * @see {@link SequentialTaskQueue.cancel}
+     */
+    cancel(): PromiseLike<any> {
+        var batch = this.takeBatch();
+        if (batch)
+            batch.callbacks.forEach(callback => callback.reject(new TaskCancelledError(this.name)));
+        return this.queue.cancel();
+    }
+
+    /**
+     * Closes the queue, preventing new items to be added. The current batch is pushed to the queue, unless the queue is cancelled.
+     * @see {@link SequentialTaskQueue.close}
+     */
+    close(cancel?: boolean): PromiseLike<any> {
+        if (cancel)
+            this.cancel();
+        else
+            this.flush();
+        return this.queue.close(cancel);
+    }
+
+    private takeBatch(): Batch<T, R> {
+        var batch = this.batch;
+        if (batch) {
+            this.batch = undefined;
+            clearTimer(this.scheduler, batch.handle);
+        }
+        return batch;
+    }
+}
+
+interface Batch<T, R> {
+    items: T[];
+    callbacks: { resolve: (value: R) => void, reject: (reason?: any) => void }[];
+    handle?: any;
+}
@@ -0,0 +1,126 @@
+﻿/**
+ * A parsed cron expression, used by {@link SequentialTaskQueue.schedule}.
+ *
+ * The expression consists of five fields separated by whitespace: minute (0-59), hour (0-23), day of month (1-31),
+ * month (1-12 or `JAN`-`DEC`) and day of week (0-7 or `SUN`-`SAT`, both 0 and 7 mean Sunday).
+ * Each field can be `*`, a value, a range (`1-5`), a list (`1,15,30`), or a range or `*` followed by a step (`0-30/10`).
+ * When both the day of month and the day of week are restricted, a day matches if either field matches.
+ * The macros `@yearly`, `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight` and `@hourly` are also accepted.
+ * Times are evaluated in the local time zone.
+ */
+export class CronExpression {
+
+    private minutes: boolean[];
+    private hours: boolean[];
+    private daysOfMonth: boolean[];
+    private months: boolean[];
+    private daysOfWeek: boolean[];
+    private anyDayOfMonth: boolean;
+    private anyDayOfWeek: boolean;
+
+    /**
+     * Parses a cron expression. Throws an exception if the expression is invalid.
+     * @param {string} expression - The cron expression.
+     */
+    constructor(readonly expression: string) {
+        var source = expression.trim();
+        var fields = (macros[source.toLowerCase()] || source).split(/\s+/);
+        if (fields.length !== 5)
+            throw new Error(`Invalid cron expression '${expression}'`);
+        this.minutes = parseField(expression, fields[0], 0, 59);
+        this.hours = parseField(expression, fields[1], 0, 23);
+        this.daysOfMonth = parseField(expression, fields[2], 1, 31);
+        this.months = parseField(expression, fields[3], 1, 12, monthNames);
+        this.daysOfWeek = parseField(expression, fields[4], 0, 7, dayNames);
+        this.daysOfWeek[0] = this.daysOfWeek[0] || this.daysOfWeek[7];
+        this.anyDayOfMonth = fields[2][0] === "*";
+        this.anyDayOfWeek = fields[4][0] === "*";
+    }
+
+    /**
+     * Indicates if the expression matches the given time. Seconds and milliseconds are ignored.
+     */
+    matches(date: Date): boolean {
+        return this.months[date.getMonth() + 1] && this.matchesDay(date)
+            && this.hours[date.getHours()] && this.minutes[date.getMinutes()];
+    }
+
+    /**
+     * Returns the first matching time after the given time, or `undefined` if there is no such time within five years
+     * (e.g. for `0 0 30 2 *`).
+     */
+    next(after: Date): Date {
+        var date = new Date(after.getTime());
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+        var lastYear = after.getFullYear() + 5;
+        while (date.getFullYear() <= lastYear) {
+            if (!this.months[date.getMonth() + 1]) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this.hours[date.getHours()]) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+            } else if (!this.minutes[date.getMinutes()]) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+            } else
+                return date;
+        }
+        return undefined;
+    }
+
+    private matchesDay(date: Date) {
+        var dayOfMonth = this.daysOfMonth[date.getDate()];
+        var dayOfWeek = this.daysOfWeek[date.getDay()];
+        if (this.anyDayOfMonth || this.anyDayOfWeek)
+            return dayOfMonth && dayOfWeek;
+        return dayOfMonth || dayOfWeek;
+    }
+}
+
+var macros: { [name: string]: string } = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *"
+};
+
+var monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+var dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseField(expression: string, field: string, min: number, max: number, names?: string[]): boolean[] {
+    var result: boolean[] = [];
+    for (var i = min; i <= max; i++)
+        result[i] = false;
+    field.split(",").forEach(part => {
+        var match = /^(?:\*|([a-z0-9]+)(?:-([a-z0-9]+))?)(?:\/(\d+))?$/i.exec(part);
+        if (!match)
+            throw new Error(`Invalid cron expression '${expression}'`);
+        var start = min;
+        var end = max;
+        var step = match[3] !== undefined ? +match[3] : 1;
+        if (match[1] !== undefined) {
+            start = parseValue(expression, match[1], min, names);
+            end = match[2] !== undefined ? parseValue(expression, match[2], min, names) : (match[3] !== undefined ? max : start);
+        }
+        if (start < min || end > max || start > end || !(step > 0))
+            throw new Error(`Invalid cron expression '${expression}'`);
+        for (var value = start; value <= end; value += step)
+            result[value] = true;
+    });
+    return result;
+}
+
+function parseValue(expression: string, value: string, min: number, names: string[]): number {
+    if (/^\d+$/.test(value))
+        return +value;
+    var index = names ? names.indexOf(value.toLowerCase()) : -1;
+    if (index === -1)
+        throw new Error(`Invalid cron expression '${expression}'`);
+    return index + min;
+}
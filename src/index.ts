@@ -0,0 +1,5 @@
+﻿export * from "./sequential-task-queue";
+export * from "./keyed-task-queue";
+export * from "./batch-task-queue";
+export * from "./metrics";
+export * from "./virtual-scheduler";
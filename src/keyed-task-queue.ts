@@ -0,0 +1,101 @@
+﻿import { SequentialTaskQueue, SequentialTaskQueueOptions, TaskOptions, CancellablePromiseLike, TaskFunction, TaskArgs, TaskResult, UntypedFunction, sequentialTaskQueueEvents, QueueClosedError } from "./sequential-task-queue";
+
+/**
+ * Task queue that runs tasks pushed with the same key sequentially, and tasks with different keys in parallel.
+ * Every key is served by a separate {@link SequentialTaskQueue} (partition) that is created when the first task is pushed
+ * with that key, and disposed when it becomes empty.
+ */
+export class KeyedTaskQueue {
+
+    private partitions = new Map<any, SequentialTaskQueue>();
+    private options: SequentialTaskQueueOptions;
+    private _isClosed: boolean = false;
+
+    name: string;
+
+    /** Indicates if the queue has been closed. Calling {@link KeyedTaskQueue.push} on a closed queue will result in an exception. */
+    get isClosed() {
+        return this._isClosed;
+    }
+
+    /** 
+     * Creates a new instance of {@link KeyedTaskQueue}
+     * @param options - Configuration options used for creating the partitions.
+    */
+    constructor(options?: SequentialTaskQueueOptions) {
+        this.options = options || {};
+        this.name = this.options.name || "KeyedTaskQueue";
+    }
+
+    /**
+     * Returns the keys of the partitions that have tasks running or waiting.
+     */
+    keys(): any[] {
+        return Array.from(this.partitions.keys());
+    }
+
+    /**
+     * Adds a new task to the partition identified by `key`.
+     * @param key - The key of the partition. Tasks pushed with the same key are run sequentially.
+     * @param {Function} task - The function to call when the task is run
+     * @param {TaskOptions} options - An object containing arguments and options for the task.
+     * @returns {CancellablePromiseLike} A promise that can be used to await or cancel the task.
+     */
+    push<F extends Function>(key: any, task: F & UntypedFunction<F>, options?: TaskOptions): CancellablePromiseLike<any>;
+    push<F extends TaskFunction>(key: any, task: F, options?: TaskOptions<TaskArgs<F>>): CancellablePromiseLike<TaskResult<F>>;
+    push(key: any, task: Function, options?: TaskOptions): CancellablePromiseLike<any> {
+        if (this._isClosed)
+            throw new QueueClosedError(this.name);
+        var partition = this.partitions.get(key);
+        if (!partition) {
+            partition = new SequentialTaskQueue(Object.assign({}, this.options, { name: `${this.name}[${key}]` }));
+            var dispose = () => {
+                if (this.partitions.get(key) === partition && !partition.size)
+                    this.partitions.delete(key);
+            };
+            // cancelling the only waiting task of a partition empties it without draining it
+            partition.on(sequentialTaskQueueEvents.drained, dispose);
+            partition.on(sequentialTaskQueueEvents.cancelled, dispose);
+            this.partitions.set(key, partition);
+        }
+        return partition.push(task, options);
+    }
+
+    /**
+     * Returns a promise that is fulfilled when the partition identified by `key` is empty.
+     * When called without a key, the promise is fulfilled when all partitions are empty.
+     * @returns {Promise}
+     */
+    wait(key?: any): PromiseLike<any> {
+        return this.forEachPartition(key, partition => partition.wait());
+    }
+
+    /**
+     * Cancels the running and waiting tasks of the partition identified by `key`.
+     * When called without a key, all partitions are cancelled.
+     * @returns {Promise} A Promise that is fulfilled when the affected partitions are empty.
+     */
+    cancel(key?: any): PromiseLike<any> {
+        return this.forEachPartition(key, partition => partition.cancel());
+    }
+
+    /**
+     * Closes the queue and all of its partitions, preventing new tasks to be added.
+     * @param {boolean} cancel - Indicates that the partitions should also be cancelled.
+     * @returns {Promise} A Promise that is fulfilled when all partitions have finished executing remaining tasks.  
+     */
+    close(cancel?: boolean): PromiseLike<any> {
+        this._isClosed = true;
+        return this.forEachPartition(undefined, partition => partition.close(cancel));
+    }
+
+    private forEachPartition(key: any, callback: (partition: SequentialTaskQueue) => PromiseLike<any>): PromiseLike<any> {
+        if (key !== undefined) {
+            var partition = this.partitions.get(key);
+            return partition ? callback(partition) : Promise.resolve();
+        }
+        var promises: PromiseLike<any>[] = [];
+        this.partitions.forEach(partition => promises.push(callback(partition)));
+        return Promise.all(promises).then(() => { });
+    }
+}
@@ -0,0 +1,313 @@
+﻿import { SequentialTaskQueue, SequentialTaskQueueEvent, SequentialTaskQueueEventMap, TaskInfo } from "./sequential-task-queue";
+
+/**
+ * Options object for the {@link TaskQueueMetrics} constructor.
+ */
+export interface TaskQueueMetricsOptions {
+    /**
+     * Upper bounds of the histogram buckets, in milliseconds. 
+     * Default is `[5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]`.
+     */
+    buckets?: number[];
+    /**
+     * Number of recent samples kept for calculating percentiles. Default is 1000.
+     */
+    sampleSize?: number;
+    /**
+     * Number of recent queue depth changes kept in {@link TaskQueueMetricsSnapshot.depthHistory}. Default is 100.
+     */
+    depthHistorySize?: number;
+}
+
+/**
+ * Snapshot of a latency histogram. All values are in milliseconds.
+ */
+export interface HistogramSnapshot {
+    /** Number of samples recorded. */
+    count: number;
+    /** Sum of all samples recorded. */
+    sum: number;
+    min: number;
+    max: number;
+    mean: number;
+    /** Percentiles, calculated from the most recent samples (see {@link TaskQueueMetricsOptions.sampleSize}). */
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+    /** Cumulative bucket counts: the number of samples less than or equal to `le`. */
+    buckets: { le: number, count: number }[];
+}
+
+/**
+ * Snapshot of the metrics collected by {@link TaskQueueMetrics}.
+ */
+export interface TaskQueueMetricsSnapshot {
+    /** Name of the queue. */
+    queue: string;
+    /** Number of tasks pushed to the queue. */
+    enqueued: number;
+    /** Number of tasks started. Retries of the same task are not counted. */
+    started: number;
+    /** Number of tasks that have finished successfully. */
+    succeeded: number;
+    /** Number of tasks that have failed. */
+    failed: number;
+    /** Number of tasks that were cancelled, including the tasks that have timed out. */
+    cancelled: number;
+    /** Number of tasks that have timed out. */
+    timedOut: number;
+    /** Number of tasks currently waiting in the queue. */
+    depth: number;
+    /** Highest number of tasks waiting in the queue at the same time. */
+    maxDepth: number;
+    /** The most recent changes of the queue depth. */
+    depthHistory: { time: number, depth: number }[];
+    /** Time spent in the queue before starting (enqueue-to-start). */
+    waitTime: HistogramSnapshot;
+    /** Time spent running (start-to-finish). */
+    runTime: HistogramSnapshot;
+    /** Number of finished tasks per second, measured from the first task pushed to the last task finished. */
+    throughput: number;
+}
+
+const defaultBuckets = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Collects metrics of a {@link SequentialTaskQueue} by listening to its lifecycle events:
+ * task counts by outcome, wait and run time histograms, queue depth and throughput.
+ * 
+ * @example
+ * var metrics = new TaskQueueMetrics(queue);
+ * // ...
+ * console.log(metrics.snapshot().waitTime.p99);
+ * response.end(metrics.toPrometheus());
+ */
+export class TaskQueueMetrics {
+
+    private counts = { enqueued: 0, started: 0, succeeded: 0, failed: 0, cancelled: 0, timedOut: 0 };
+    private waitTime: Histogram;
+    private runTime: Histogram;
+    private depth = 0;
+    private maxDepth = 0;
+    private depthHistory: { time: number, depth: number }[] = [];
+    private depthHistorySize: number;
+    private firstEnqueuedAt: number;
+    private lastFinishedAt: number;
+    private handlers: { [E in SequentialTaskQueueEvent]?: SequentialTaskQueueEventMap[E] };
+
+    /** The queue the metrics are collected from. */
+    readonly queue: SequentialTaskQueue;
+
+    /**
+     * Creates a new instance of {@link TaskQueueMetrics}, and attaches it to a queue.
+     * @param queue - The queue to collect metrics from.
+     * @param options - Configuration options.
+     */
+    constructor(queue: SequentialTaskQueue, options?: TaskQueueMetricsOptions) {
+        options = options || {};
+        this.queue = queue;
+        var buckets = (options.buckets || defaultBuckets).slice().sort((a, b) => a - b);
+        var sampleSize = options.sampleSize || 1000;
+        this.waitTime = new Histogram(buckets, sampleSize);
+        this.runTime = new Histogram(buckets, sampleSize);
+        this.depthHistorySize = options.depthHistorySize !== undefined ? options.depthHistorySize : 100;
+        this.handlers = {
+            enqueued: (task: TaskInfo) => {
+                this.counts.enqueued++;
+                if (this.firstEnqueuedAt === undefined)
+                    this.firstEnqueuedAt = task.enqueuedAt;
+                this.recordDepth(task.enqueuedAt);
+            },
+            started: (task: TaskInfo) => {
+                this.counts.started++;
+                this.waitTime.record(task.startedAt - task.enqueuedAt);
+                this.recordDepth(task.startedAt);
+            },
+            succeeded: (task: TaskInfo) => this.recordFinished(task, "succeeded"),
+            failed: (task: TaskInfo) => this.recordFinished(task, "failed"),
+            cancelled: (task: TaskInfo) => this.recordFinished(task, "cancelled"),
+            timeout: () => {
+                this.counts.timedOut++;
+            }
+        };
+        (<SequentialTaskQueueEvent[]>Object.keys(this.handlers)).forEach(evt => queue.on(evt, this.handlers[evt]));
+    }
+
+    /**
+     * Stops collecting metrics. The metrics collected so far are still available.
+     */
+    detach() {
+        (<SequentialTaskQueueEvent[]>Object.keys(this.handlers)).forEach(evt => this.queue.off(evt, this.handlers[evt]));
+    }
+
+    /**
+     * Clears the metrics collected so far.
+     */
+    reset() {
+        Object.keys(this.counts).forEach(key => this.counts[key] = 0);
+        this.waitTime.reset();
+        this.runTime.reset();
+        this.maxDepth = this.depth;
+        this.depthHistory = [];
+        this.firstEnqueuedAt = undefined;
+        this.lastFinishedAt = undefined;
+    }
+
+    /**
+     * Returns a snapshot of the metrics collected so far.
+     */
+    snapshot(): TaskQueueMetricsSnapshot {
+        var c = this.counts;
+        var finished = c.succeeded + c.failed + c.cancelled;
+        var elapsed = this.lastFinishedAt - this.firstEnqueuedAt;
+        return {
+            queue: this.queue.name,
+            enqueued: c.enqueued,
+            started: c.started,
+            succeeded: c.succeeded,
+            failed: c.failed,
+            cancelled: c.cancelled,
+            timedOut: c.timedOut,
+            depth: this.depth,
+            maxDepth: this.maxDepth,
+            depthHistory: this.depthHistory.slice(),
+            waitTime: this.waitTime.snapshot(),
+            runTime: this.runTime.snapshot(),
+            throughput: elapsed > 0 ? finished / elapsed * 1000 : 0
+        };
+    }
+
+    /**
+     * Returns the metrics in the Prometheus text exposition format.
+     * @param prefix - Prefix of the metric names. Default is `"task_queue"`.
+     * @see {@link formatPrometheus}
+     */
+    toPrometheus(prefix?: string): string {
+        return formatPrometheus([this], prefix);
+    }
+
+    private recordFinished(task: TaskInfo, outcome: "succeeded" | "failed" | "cancelled") {
+        this.counts[outcome]++;
+        this.lastFinishedAt = task.finishedAt;
+        if (task.startedAt !== undefined)
+            this.runTime.record(task.finishedAt - task.startedAt);
+        else
+            this.recordDepth(task.finishedAt);
+    }
+
+    private recordDepth(time: number) {
+        this.depth = this.queue.pendingCount;
+        this.maxDepth = Math.max(this.maxDepth, this.depth);
+        if (this.depthHistorySize) {
+            this.depthHistory.push({ time: time, depth: this.depth });
+            if (this.depthHistory.length > this.depthHistorySize)
+                this.depthHistory.shift();
+        }
+    }
+}
+
+/**
+ * Formats the metrics of one or more queues in the Prometheus text exposition format. 
+ * The queues are distinguished by the `queue` label, which is set to the name of the queue.
+ * Durations are exported in seconds.
+ * @param metrics - The metrics to export.
+ * @param prefix - Prefix of the metric names. Default is `"task_queue"`.
+ */
+export function formatPrometheus(metrics: TaskQueueMetrics[], prefix?: string): string {
+    prefix = prefix || "task_queue";
+    var snapshots = metrics.map(m => m.snapshot());
+    var lines: string[] = [];
+
+    function metric(name: string, type: string, help: string, values: (s: TaskQueueMetricsSnapshot) => string[]) {
+        lines.push(`# HELP ${prefix}_${name} ${help}`);
+        lines.push(`# TYPE ${prefix}_${name} ${type}`);
+        snapshots.forEach(s => values(s).forEach(line => lines.push(`${prefix}_${line}`)));
+    }
+
+    function histogram(name: string, help: string, select: (s: TaskQueueMetricsSnapshot) => HistogramSnapshot) {
+        metric(name, "histogram", help, s => {
+            var h = select(s);
+            var queue = `queue="${escapeLabel(s.queue)}"`;
+            return h.buckets.map(b => `${name}_bucket{${queue},le="${b.le / 1000}"} ${b.count}`).concat(
+                `${name}_bucket{${queue},le="+Inf"} ${h.count}`,
+                `${name}_sum{${queue}} ${h.sum / 1000}`,
+                `${name}_count{${queue}} ${h.count}`);
+        });
+    }
+
+    metric("enqueued_total", "counter", "Number of tasks pushed to the queue.",
+        s => [`enqueued_total{queue="${escapeLabel(s.queue)}"} ${s.enqueued}`]);
+    metric("tasks_total", "counter", "Number of finished tasks by outcome.",
+        s => ["succeeded", "failed", "cancelled"].map(outcome => 
+            `tasks_total{queue="${escapeLabel(s.queue)}",outcome="${outcome}"} ${s[outcome]}`));
+    metric("timeouts_total", "counter", "Number of tasks that have timed out.",
+        s => [`timeouts_total{queue="${escapeLabel(s.queue)}"} ${s.timedOut}`]);
+    metric("depth", "gauge", "Number of tasks waiting in the queue.",
+        s => [`depth{queue="${escapeLabel(s.queue)}"} ${s.depth}`]);
+    histogram("wait_seconds", "Time spent in the queue before the task was started.", s => s.waitTime);
+    histogram("run_seconds", "Time spent running the task.", s => s.runTime);
+    return lines.join("\n") + "\n";
+}
+
+function escapeLabel(value: string) {
+    return String(value).replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+}
+
+class Histogram {
+    private bounds: number[];
+    private sampleSize: number;
+    private counts: number[];
+    private samples: number[] = [];
+    private next = 0;
+    private count = 0;
+    private sum = 0;
+    private min: number;
+    private max: number;
+
+    constructor(bounds: number[], sampleSize: number) {
+        this.bounds = bounds;
+        this.sampleSize = sampleSize;
+        this.reset();
+    }
+
+    record(value: number) {
+        this.count++;
+        this.sum += value;
+        this.min = this.count === 1 ? value : Math.min(this.min, value);
+        this.max = this.count === 1 ? value : Math.max(this.max, value);
+        for (let i = 0; i < this.bounds.length; i++)
+            if (value <= this.bounds[i])
+                this.counts[i]++;
+        // keep the most recent samples in a ring buffer
+        this.samples[this.next] = value;
+        this.next = (this.next + 1) % this.sampleSize;
+    }
+
+    reset() {
+        this.counts = this.bounds.map(() => 0);
+        this.samples = [];
+        this.next = 0;
+        this.count = 0;
+        this.sum = 0;
+        this.min = undefined;
+        this.max = undefined;
+    }
+
+    snapshot(): HistogramSnapshot {
+        var sorted = this.samples.slice().sort((a, b) => a - b);
+        var percentile = (p: number) => sorted.length ? sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)] : 0;
+        return {
+            count: this.count,
+            sum: this.sum,
+            min: this.count ? this.min : 0,
+            max: this.count ? this.max : 0,
+            mean: this.count ? this.sum / this.count : 0,
+            p50: percentile(0.5),
+            p90: percentile(0.9),
+            p95: percentile(0.95),
+            p99: percentile(0.99),
+            buckets: this.bounds.map((le, i) => ({ le: le, count: this.counts[i] }))
+        };
+    }
+}
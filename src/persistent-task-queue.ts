@@ -0,0 +1,270 @@
+﻿import * as fs from "fs";
+import { SequentialTaskQueue, SequentialTaskQueueOptions, TaskOptions, CancellablePromiseLike, TaskFunction, QueueClosedError, Logger } from "./sequential-task-queue";
+
+/**
+ * Serializable description of a task stored by {@link PersistentTaskQueue}.
+ */
+export interface StoredTask {
+    /** Identifier of the task, also used as the {@link TaskOptions.id} of the task. */
+    id: string;
+    /** Name of the handler registered with {@link PersistentTaskQueue.register}. */
+    handler: string;
+    /** Arguments passed to the handler. */
+    args: any[];
+    /** See {@link TaskOptions.name}. */
+    name?: string;
+    /** See {@link TaskOptions.priority}. */
+    priority?: number;
+    /** See {@link TaskOptions.timeout}. */
+    timeout?: number;
+}
+
+/**
+ * Storage adapter used by {@link PersistentTaskQueue}.
+ */
+export interface TaskStorage {
+    /** Returns the stored tasks that haven't been completed yet, in the order they were added. */
+    load(): PromiseLike<StoredTask[]>;
+    /** Stores a new task. */
+    add(task: StoredTask): PromiseLike<void>;
+    /** Removes a completed task. */
+    remove(id: string): PromiseLike<void>;
+}
+
+/**
+ * Object used for passing configuration options to the {@link PersistentTaskQueue} constructor.
+ */
+export interface PersistentTaskQueueOptions extends SequentialTaskQueueOptions {
+    /**
+     * Storage adapter for the tasks. Defaults to a new {@link MemoryTaskStorage}.
+     */
+    storage?: TaskStorage;
+}
+
+/**
+ * Task queue that stores its tasks before running them, so that unfinished tasks can be run again after the process restarts.
+ * Tasks are described by the name of a registered handler and serializable arguments. A task is removed from the storage
+ * when it has finished (whether it succeeded, failed or was cancelled), and tasks that were stored but haven't finished are
+ * run again by {@link PersistentTaskQueue.restore}, which gives at-least-once execution semantics.
+ */
+export class PersistentTaskQueue {
+
+    private storage: TaskStorage;
+    private logger: Logger;
+    private handlers = new Map<string, TaskFunction>();
+    private sequence: number = 0;
+
+    /** The underlying queue that runs the tasks. */
+    readonly queue: SequentialTaskQueue;
+
+    name: string;
+
+    /** Indicates if the queue has been closed. Calling {@link PersistentTaskQueue.push} on a closed queue will result in an exception. */
+    get isClosed() {
+        return this.queue.isClosed;
+    }
+
+    /**
+     * Creates a new instance of {@link PersistentTaskQueue}
+     * @param options - Configuration options for the task queue.
+    */
+    constructor(options?: PersistentTaskQueueOptions) {
+        if (!options)
+            options = {};
+        this.name = options.name || "PersistentTaskQueue";
+        this.storage = options.storage || new MemoryTaskStorage();
+        this.logger = options.logger || console;
+        this.queue = new SequentialTaskQueue(Object.assign({}, options, { name: this.name }));
+    }
+
+    /**
+     * Registers a handler function. Handlers must be registered before pushing or restoring tasks that use them.
+     * @param {string} name - Name of the handler, stored with the tasks.
+     * @param {Function} handler - The function to call when a task is run. It receives the arguments of the task, followed by a {@link CancellationToken}.
+     */
+    register(name: string, handler: TaskFunction) {
+        this.handlers.set(name, handler);
+    }
+
+    /**
+     * Stores a new task, and adds it to the queue. The task is not started before it has been stored.
+     * @param {string} handler - Name of a registered handler.
+     * @param {TaskOptions} options - An object containing arguments and options for the task. Only the `args`, `name`,
+     * `priority` and `timeout` options are stored, the arguments must be serializable by the storage adapter.
+     * @returns {CancellablePromiseLike} A promise that can be used to await or cancel the task.
+     */
+    push(handler: string, options?: TaskOptions): CancellablePromiseLike<any> {
+        if (this.queue.isClosed)
+            throw new QueueClosedError(this.name);
+        this.getHandler(handler);
+        var task: StoredTask = {
+            id: `${Date.now().toString(36)}-${this.sequence++}`,
+            handler: handler,
+            args: options && options.args !== undefined ? (Array.isArray(options.args) ? options.args : [options.args]) : [],
+            name: options && options.name,
+            priority: options && options.priority,
+            timeout: options && options.timeout
+        };
+        return this.run(task, this.storage.add(task), options);
+    }
+
+    /**
+     * Adds the tasks that were stored but haven't finished to the queue, in the order they were stored.
+     * Should be called once, after registering the handlers and before pushing new tasks.
+     * @returns {Promise} A promise that is resolved with the number of restored tasks. The promise is rejected
+     * (and no task is restored) if a stored task refers to a handler that hasn't been registered.
+     */
+    restore(): PromiseLike<number> {
+        return this.storage.load().then(tasks => {
+            tasks.forEach(task => this.getHandler(task.handler));
+            tasks.forEach(task => this.run(task, Promise.resolve()));
+            return tasks.length;
+        });
+    }
+
+    /** @see {@link SequentialTaskQueue.wait} */
+    wait(): PromiseLike<any> {
+        return this.queue.wait();
+    }
+
+    /**
+     * Cancels the running and waiting tasks. Cancelled tasks are removed from the storage.
+     * @see {@link SequentialTaskQueue.cancel}
+     */
+    cancel(): PromiseLike<any> {
+        return this.queue.cancel();
+    }
+
+    /** @see {@link SequentialTaskQueue.close} */
+    close(cancel?: boolean): PromiseLike<any> {
+        return this.queue.close(cancel);
+    }
+
+    private getHandler(name: string): TaskFunction {
+        var handler = this.handlers.get(name);
+        if (!handler)
+            throw new Error(`${this.name}: No handler registered with the name '${name}'`);
+        return handler;
+    }
+
+    private run(task: StoredTask, stored: PromiseLike<void>, options?: TaskOptions): CancellablePromiseLike<any> {
+        var handler = this.getHandler(task.handler);
+        var result = this.queue.push((...args: any[]) => stored.then(() => handler.apply(undefined, args)),
+            Object.assign({}, options, {
+                id: task.id,
+                name: task.name,
+                priority: task.priority,
+                timeout: task.timeout,
+                args: task.args
+            }));
+        // fail the task as soon as it couldn't be stored, even if it hasn't been started yet
+        stored.then(undefined, reason => result.cancel(reason));
+        var complete = () => {
+            this.storage.remove(task.id).then(undefined, err => {
+                this.logger.error(`${this.name}: Failed to remove completed task '${task.id}' from the storage`, err);
+            });
+        };
+        result.then(complete, complete);
+        return result;
+    }
+}
+
+/**
+ * {@link TaskStorage} that keeps the tasks in memory. Tasks don't survive a restart of the process, but the storage can be
+ * shared by multiple {@link PersistentTaskQueue} instances, e.g. in tests.
+ */
+export class MemoryTaskStorage implements TaskStorage {
+
+    private tasks: StoredTask[] = [];
+
+    load(): PromiseLike<StoredTask[]> {
+        return Promise.resolve(this.tasks.slice());
+    }
+
+    add(task: StoredTask): PromiseLike<void> {
+        this.tasks.push(task);
+        return Promise.resolve();
+    }
+
+    remove(id: string): PromiseLike<void> {
+        this.tasks = this.tasks.filter(task => task.id !== id);
+        return Promise.resolve();
+    }
+}
+
+/**
+ * {@link TaskStorage} that keeps the tasks in a JSON file. The file is rewritten after every change,
+ * by writing a temporary file and renaming it, so that a crash doesn't leave a partially written file behind.
+ */
+export class JsonFileTaskStorage implements TaskStorage {
+
+    private tasks: Promise<StoredTask[]>;
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new instance of {@link JsonFileTaskStorage}
+     * @param {string} path - Path of the JSON file. The file is created when the first task is stored.
+     */
+    constructor(readonly path: string) {
+    }
+
+    load(): PromiseLike<StoredTask[]> {
+        return this.getTasks().then(tasks => tasks.slice());
+    }
+
+    add(task: StoredTask): PromiseLike<void> {
+        return this.update(tasks => tasks.push(task));
+    }
+
+    remove(id: string): PromiseLike<void> {
+        return this.update(tasks => {
+            var index = tasks.findIndex(task => task.id === id);
+            if (index !== -1)
+                tasks.splice(index, 1);
+        });
+    }
+
+    private getTasks(): Promise<StoredTask[]> {
+        if (!this.tasks) {
+            var tasks = this.tasks = new Promise<StoredTask[]>((resolve, reject) => {
+                fs.readFile(this.path, "utf8", (err, data) => {
+                    if (err && err.code === "ENOENT")
+                        return resolve([]);
+                    if (err)
+                        return reject(err);
+                    try {
+                        resolve(JSON.parse(data));
+                    } catch (e) {
+                        reject(e);
+                    }
+                });
+            });
+            // a failed read is not cached, the next call reads the file again
+            tasks.then(undefined, () => {
+                if (this.tasks === tasks)
+                    this.tasks = undefined;
+            });
+        }
+        return this.tasks;
+    }
+
+    private update(change: (tasks: StoredTask[]) => void): PromiseLike<void> {
+        // writes are serialized, and a failed write doesn't prevent the next ones
+        var write = () => this.getTasks().then(tasks => {
+            change(tasks);
+            return writeFile(this.path, JSON.stringify(tasks));
+        });
+        return this.writing = this.writing.then(write, write);
+    }
+}
+
+function writeFile(path: string, data: string): Promise<void> {
+    var temp = path + ".tmp";
+    return new Promise<void>((resolve, reject) => {
+        fs.writeFile(temp, data, err => {
+            if (err)
+                return reject(err);
+            fs.rename(temp, path, err => err ? reject(err) : resolve());
+        });
+    });
+}
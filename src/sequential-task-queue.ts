@@ -1,4 +1,9 @@
-﻿/** 
+﻿import { CronExpression } from "./cron";
+import { setTimer, clearTimer } from "./timers";
+
+export { CronExpression };
+
+/** 
  * Represents an object that schedules a function for asynchronous execution.
  * The default implementation used by {@link SequentialTaskQueue} calls {@link setImmediate} when available,
  * and {@link setTimeout} otherwise.
@@ -10,6 +15,20 @@ export interface Scheduler {
      * Schedules a callback for asynchronous execution.
      */
     schedule(callback: Function): void;
+    /**
+     * Returns the current time in milliseconds. Used by the queue for timestamps, delays and rate limiting. When not implemented, the queue calls {@link Date.now}.
+     */
+    now?(): number;
+    /**
+     * Calls a function after the given number of milliseconds. Used by the queue for timeouts, delays, retries and recurring tasks. 
+     * When not implemented, the queue calls {@link setTimeout}. Must be implemented together with {@link Scheduler.clearTimeout}.
+     * @returns A handle that can be passed to {@link Scheduler.clearTimeout}.
+     */
+    setTimeout?(callback: () => void, delay: number): any;
+    /**
+     * Cancels a call scheduled with {@link Scheduler.setTimeout}. When not implemented, the queue calls {@link clearTimeout}.
+     */
+    clearTimeout?(handle: any): void;
 }
 
 /**
@@ -28,12 +47,82 @@ export interface SequentialTaskQueueOptions {
      * Scheduler used by the queue. Defaults to {@link SequentialTaskQueue.defaultScheduler}. 
      */
     scheduler?: Scheduler;
+    /**
+     * Limits the number of tasks started within a time window. Default is no limit.
+     */
+    rateLimit?: RateLimitOptions;
+    /**
+     * Maximum number of tasks waiting to be started. Running tasks don't count towards the limit. Default is no limit.
+     * @see {@link SequentialTaskQueueOptions.overflow}
+     */
+    maxSize?: number;
+    /**
+     * Determines what happens when a task is pushed to a full queue, see {@link OverflowStrategy}. Default is `"throw"`.
+     */
+    overflow?: OverflowStrategy;
+    /**
+     * Default value of {@link TaskOptions.cooperativeCancellation} for tasks pushed to the queue. Default is `false`.
+     */
+    cooperativeCancellation?: boolean | number;
+    /**
+     * Determines what the queue does after a task has failed, see {@link ErrorPolicy}. Default is `"continue"`.
+     */
+    onError?: ErrorPolicy;
+    /**
+     * Logger used for reporting errors that can't be handled otherwise, e.g. exceptions thrown in event handlers. Default is `console`.
+     */
+    logger?: Logger;
+}
+
+/**
+ * Behavior of {@link SequentialTaskQueue} after a task has failed (after its last attempt, see {@link TaskOptions.retry}):
+ * - `"continue"`: the queue runs the remaining tasks.
+ * - `"pause"`: the queue is paused, see {@link SequentialTaskQueue.pause}.
+ * - `"cancel"`: the remaining tasks are cancelled, see {@link SequentialTaskQueue.cancel}.
+ * - `"close"`: the queue is closed, the remaining tasks are still run, see {@link SequentialTaskQueue.close}.
+ * 
+ * In every case, the task's promise is rejected and the `error` event is emitted before the policy is applied.
+ */
+export type ErrorPolicy = "continue" | "pause" | "cancel" | "close";
+
+/**
+ * The subset of the `console` interface used by {@link SequentialTaskQueue} for reporting errors.
+ */
+export interface Logger {
+    error(message?: any, ...optionalParams: any[]): void;
+}
+
+/**
+ * Behavior of {@link SequentialTaskQueue.push} when the queue has reached {@link SequentialTaskQueueOptions.maxSize}:
+ * - `"throw"`: `push` throws an exception, the task is not added to the queue.
+ * - `"reject"`: the new task is cancelled with {@link cancellationTokenReasons.overflow}.
+ * - `"dropOldest"`: the oldest waiting task is cancelled with {@link cancellationTokenReasons.overflow} to make room for the new task.
+ * - `"wait"`: the new task is held back until there is room in the queue.
+ * 
+ * Tasks released by their dependencies (see {@link TaskOptions.dependsOn}) into a full queue are handled the same way,
+ * except that `"throw"` cancels them like `"reject"`, since they have already been pushed.
+ */
+export type OverflowStrategy = "throw" | "reject" | "dropOldest" | "wait";
+
+/**
+ * Options object for limiting the rate at which a queue starts tasks.
+ */
+export interface RateLimitOptions {
+    /**
+     * Maximum number of tasks started within {@link RateLimitOptions.interval}.
+     */
+    limit: number;
+    /**
+     * Length of the sliding time window, in milliseconds.
+     */
+    interval: number;
 }
 
 /**
  * Options object for individual tasks.
+ * @typeparam A - Type of the {@link TaskOptions.args} property, see {@link TaskArgs}.
  */
-export interface TaskOptions {
+export interface TaskOptions<A = any> {
     /**
      * Timeout for the task, in milliseconds. 
      * */
@@ -51,7 +140,170 @@ export interface TaskOptions {
      *     console.log(n);
      * }
      */
-    args?: any;    
+    args?: A;
+
+    /**
+     * Priority of the task. Tasks with higher priority are run before tasks with lower priority,
+     * tasks with equal priority are run in the order they were pushed. Default is 0.
+     */
+    priority?: number;
+
+    /**
+     * Retry policy for the task. When a number is specified, it is interpreted as the maximum number of attempts.
+     * If omitted, failed tasks are not retried.
+     */
+    retry?: RetryOptions | number;
+
+    /**
+     * An `AbortSignal` that cancels the task when aborted. The task is cancelled with the signal's `reason`.
+     */
+    signal?: AbortSignalLike;
+
+    /**
+     * Determines what happens when the task is cancelled while the promise returned by the task is pending.
+     * When `false`, the task is finished immediately, and the next task can be started while the cancelled one is still running.
+     * When `true`, the task keeps running (and the next task is not started) until its promise is settled; a number limits
+     * this wait to the given grace period, in milliseconds. Either way, the promise returned by {@link SequentialTaskQueue.push}
+     * is rejected with the cancellation reason. Defaults to {@link SequentialTaskQueueOptions.cooperativeCancellation}.
+     */
+    cooperativeCancellation?: boolean | number;
+
+    /**
+     * Identifier of the task. Defaults to a number that is unique within the queue. 
+     * @see {@link SequentialTaskQueue.getTask}
+     */
+    id?: any;
+
+    /**
+     * A descriptive name of the task for diagnostic purposes. The name does not need to be unique.
+     */
+    name?: string;
+
+    /**
+     * Number of milliseconds to wait before the task can be started. 
+     * @see {@link TaskOptions.runAt}
+     */
+    delay?: number;
+
+    /**
+     * The earliest time the task can be started, either as a `Date` or in milliseconds (see {@link Scheduler.now}).
+     * Until then, the task is kept in the queue with the status `"scheduled"`, and tasks pushed later are allowed to run before it.
+     * Scheduled tasks don't count towards {@link SequentialTaskQueueOptions.maxSize}.
+     */
+    runAt?: number | Date;
+
+    /**
+     * Identifiers of tasks (see {@link TaskOptions.id}) or promises (e.g. returned by {@link SequentialTaskQueue.push}) the task depends on.
+     * The task is held back until all of its dependencies have succeeded, and it is cancelled with {@link cancellationTokenReasons.dependency}
+     * if any of them fails or is cancelled. An identifier must belong to a task in the queue, or to one of the last 1000 tasks that have finished;
+     * unknown identifiers and circular dependencies result in an exception. Use the promise of a task that might have been forgotten.
+     * While it is held back, the task has the status `"waiting"`.
+     */
+    dependsOn?: any[];
+
+    /**
+     * Deduplication key of the task. When a task with the same key is already waiting in the queue, 
+     * the new task is coalesced with it according to {@link TaskOptions.coalesce}. Running tasks are never affected.
+     */
+    key?: any;
+
+    /**
+     * Determines how a task is coalesced with a waiting task with the same {@link TaskOptions.key}, see {@link CoalesceMode}.
+     * Default is `"reuse"`.
+     */
+    coalesce?: CoalesceMode;
+}
+
+/**
+ * Behavior of {@link SequentialTaskQueue.push} when a task with the same {@link TaskOptions.key} is already waiting in the queue:
+ * - `"reuse"`: the new task is discarded, and the promise of the waiting task is returned.
+ * - `"replace"`: the function, arguments, name, timeout and retry policy of the waiting task are replaced with the new ones,
+ *   the task keeps its place in the queue. Both callers receive the result of the new function.
+ * - `"ignore"`: the new task is discarded, and the returned promise is resolved with `undefined`.
+ */
+export type CoalesceMode = "reuse" | "replace" | "ignore";
+
+/**
+ * Status of a task, see {@link TaskInfo.status}.
+ */
+export type TaskStatus = "scheduled" | "waiting" | "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * Read-only snapshot of a task's state.
+ */
+export interface TaskInfo {
+    /** Identifier of the task, see {@link TaskOptions.id}. */
+    id: any;
+    /** Name of the task, see {@link TaskOptions.name}. */
+    name?: string;
+    /** Deduplication key of the task, see {@link TaskOptions.key}. */
+    key?: any;
+    /** Status of the task at the time the snapshot was taken. */
+    status: TaskStatus;
+    /** Priority of the task, see {@link TaskOptions.priority}. */
+    priority: number;
+    /** Timeout of the task in milliseconds, 0 or `undefined` if the task has no timeout. */
+    timeout?: number;
+    /** Time when the task was pushed to the queue, in milliseconds (see {@link Scheduler.now}). */
+    enqueuedAt: number;
+    /** The earliest time the task can be started, in milliseconds (see {@link TaskOptions.runAt}). `undefined` if the task was not delayed. */
+    runAt?: number;
+    /** Time when the task was started, in milliseconds (see {@link Scheduler.now}). `undefined` if the task hasn't been started yet. */
+    startedAt?: number;
+    /** Time when the task has finished (or was cancelled), in milliseconds (see {@link Scheduler.now}). `undefined` if the task hasn't finished yet. */
+    finishedAt?: number;
+    /** Number of times the task has been invoked, including retries. */
+    attempts: number;
+}
+
+/**
+ * The subset of the standard `AbortSignal` interface used by {@link SequentialTaskQueue}.
+ */
+export interface AbortSignalLike {
+    /** Indicates if the signal has been aborted. */
+    readonly aborted: boolean;
+    /** The reason of the abort. */
+    readonly reason?: any;
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/**
+ * Options object that describes how a failed task should be retried.
+ */
+export interface RetryOptions {
+    /**
+     * Maximum number of attempts, including the first run of the task. Default is 3.
+     */
+    attempts?: number;
+
+    /**
+     * Backoff strategy. When `"fixed"`, the queue waits {@link RetryOptions.delay} milliseconds before each retry. 
+     * When `"exponential"`, the delay is doubled after every failed attempt. Default is `"exponential"`.
+     */
+    backoff?: "fixed" | "exponential";
+
+    /**
+     * Delay before the first retry, in milliseconds. Default is 100.
+     */
+    delay?: number;
+
+    /**
+     * Upper limit of the delay between attempts, in milliseconds. Default is no limit.
+     */
+    maxDelay?: number;
+
+    /**
+     * A number between 0 and 1. When set, the delay is randomly reduced by up to this fraction of its value,
+     * so that tasks failing at the same time are not retried at the same time. Default is 0.
+     */
+    jitter?: number;
+
+    /**
+     * Predicate that decides if the task should be retried after an error. It receives the error and the number of 
+     * attempts made so far. By default, every error is retried.
+     */
+    retryIf?: (error: any, attempt: number) => boolean;
 }
 
 /**
@@ -71,6 +323,23 @@ export interface CancellationToken {
      * @param reason - The reason of the cancellation, see {@link CancellationToken.reason} 
      */
     cancel(reason?: any);
+    /**
+     * Registers a callback that is called with {@link CancellationToken.reason} when the task is cancelled.
+     * If the task has already been cancelled, the callback is called immediately.
+     */
+    onCancelled(callback: (reason: any) => void): void;
+    /**
+     * Throws if the task has been cancelled, with the same value the promise of the task is rejected with (see {@link TaskCancelledError}).
+     * Useful for stopping a task between its steps.
+     */
+    throwIfCancelled(): void;
+    /**
+     * An `AbortSignal` that is aborted when the task is cancelled, e.g. for passing it to `fetch`. 
+     * If the task was cancelled by the queue, the abort reason is a `DOMException` named `"AbortError"` or `"TimeoutError"`,
+     * otherwise it is the reason passed to {@link CancellationToken.cancel}.
+     * The property is `undefined` in environments that don't implement `AbortController`.
+     */
+    readonly signal?: AbortSignalLike;
 }
 
 /**
@@ -82,16 +351,161 @@ export var cancellationTokenReasons = {
     /** Used when the task was cancelled in response to a call to {@link SequentialTaskQueue.cancel} */
     cancel: Object.create(null),
     /** Used when the task was cancelled after its timeout has passed */
-    timeout: Object.create(null)
+    timeout: Object.create(null),
+    /** Used when the task was rejected or dropped from a full queue, see {@link SequentialTaskQueueOptions.overflow} */
+    overflow: Object.create(null),
+    /** Used when a dependency of the task has failed or was cancelled, see {@link TaskOptions.dependsOn} */
+    dependency: Object.create(null)
+}
+
+/**
+ * Error used for rejecting the promise of a task that was cancelled with one of the {@link cancellationTokenReasons}.
+ * The cancellation reason is available in the {@link TaskCancelledError.reason} property, so that it can be compared 
+ * with the members of {@link cancellationTokenReasons}. Tasks cancelled with any other reason are rejected with that reason.
+ */
+export class TaskCancelledError extends Error {
+    /**
+     * Creates a new instance of {@link TaskCancelledError}
+     * @param {string} queueName - Name of the queue, see {@link SequentialTaskQueue.name}.
+     * @param {string} taskLabel - Name of the task, or its id if it has no name.
+     * @param {number} elapsed - Milliseconds elapsed between starting (or pushing, if it hasn't been started) and cancelling the task.
+     * @param reason - A member of {@link cancellationTokenReasons}. Default is {@link cancellationTokenReasons.cancel}.
+     */
+    constructor(readonly queueName: string, readonly taskLabel?: string, readonly elapsed?: number, readonly reason: any = cancellationTokenReasons.cancel) {
+        super(getCancellationMessage(queueName, taskLabel, elapsed, reason));
+        this.name = "TaskCancelledError";
+    }
+}
+
+/**
+ * Error used for rejecting the promise of a task that has timed out. Its {@link TaskCancelledError.reason} is {@link cancellationTokenReasons.timeout}.
+ */
+export class TaskTimeoutError extends TaskCancelledError {
+    /**
+     * Creates a new instance of {@link TaskTimeoutError}
+     * @param {string} queueName - Name of the queue, see {@link SequentialTaskQueue.name}.
+     * @param {string} taskLabel - Name of the task, or its id if it has no name.
+     * @param {number} elapsed - Milliseconds elapsed between starting the task and the timeout.
+     */
+    constructor(queueName: string, taskLabel?: string, elapsed?: number) {
+        super(queueName, taskLabel, elapsed, cancellationTokenReasons.timeout);
+        this.name = "TaskTimeoutError";
+    }
+}
+
+/**
+ * Error thrown when pushing a task to a queue that has been closed.
+ */
+export class QueueClosedError extends Error {
+    /**
+     * Creates a new instance of {@link QueueClosedError}
+     * @param {string} queueName - Name of the queue, see {@link SequentialTaskQueue.name}.
+     */
+    constructor(readonly queueName: string) {
+        super(`${queueName} has been previously closed`);
+        this.name = "QueueClosedError";
+    }
 }
 
+/**
+ * Signatures of the event handlers of {@link SequentialTaskQueue}, by event name.
+ * When invoking a handler, the queue sets itself as the `this` argument of the call.
+ */
+export interface SequentialTaskQueueEventMap {
+    drained: (this: SequentialTaskQueue) => void;
+    error: (this: SequentialTaskQueue, error: any) => void;
+    timeout: (this: SequentialTaskQueue, task: TaskInfo) => void;
+    enqueued: (this: SequentialTaskQueue, task: TaskInfo) => void;
+    started: (this: SequentialTaskQueue, task: TaskInfo) => void;
+    succeeded: (this: SequentialTaskQueue, task: TaskInfo, result: any) => void;
+    failed: (this: SequentialTaskQueue, task: TaskInfo, error: any) => void;
+    cancelled: (this: SequentialTaskQueue, task: TaskInfo, reason: any) => void;
+    retry: (this: SequentialTaskQueue, error: any, attempt: number) => void;
+    paused: (this: SequentialTaskQueue) => void;
+    resumed: (this: SequentialTaskQueue) => void;
+    rateLimited: (this: SequentialTaskQueue, delay: number) => void;
+}
+
+/**
+ * Names of the events emitted by {@link SequentialTaskQueue}.
+ */
+export type SequentialTaskQueueEvent = keyof SequentialTaskQueueEventMap;
+
 /**
  * Standard event names used by {@link SequentialTaskQueue}
  */
-export var sequentialTaskQueueEvents = {
+export var sequentialTaskQueueEvents: { [E in SequentialTaskQueueEvent]: E } = {
     drained: "drained",
     error: "error",
-    timeout: "timeout"
+    timeout: "timeout",
+    enqueued: "enqueued",
+    started: "started",
+    succeeded: "succeeded",
+    failed: "failed",
+    cancelled: "cancelled",
+    retry: "retry",
+    paused: "paused",
+    resumed: "resumed",
+    rateLimited: "rateLimited"
+}
+
+/**
+ * A function that can be pushed to a task queue.
+ */
+export type TaskFunction = (...args: any[]) => any;
+
+/**
+ * Type of the value a task resolves to: the return type of the task function, unwrapped if it is a `PromiseLike`.
+ */
+export type TaskResult<F> = F extends (...args: any[]) => infer R ? Unwrap<R> : any;
+
+/**
+ * Resolves the type of a `PromiseLike`. Types other than `PromiseLike` are left intact.
+ */
+export type Unwrap<T> = T extends PromiseLike<infer U> ? U : T;
+
+/**
+ * Type of the {@link TaskOptions.args} property for a task function, inferred from its parameter list.
+ * The last parameter of the function is expected to be the {@link CancellationToken}, it is not part of the arguments
+ * (unless it is typed `any`, which makes it an argument).
+ * A function with a single parameter accepts either the argument itself, or an array containing the argument 
+ * (array arguments must always be wrapped in an array). Functions with untyped parameters accept any arguments.
+ */
+export type TaskArgs<F> =
+    F extends (arg1: infer A1, ...rest: any[]) => any ? (
+        IsAny<A1> extends true ? any :
+        F extends (token: CancellationToken) => any ? never :
+        F extends (arg1: infer A1, token: CancellationToken) => any ? (
+            F extends (arg1: any, token: infer T) => any ? IsAny<T> extends true ? [A1, T] : (A1 extends any[] ? [A1] : A1 | [A1]) : never) :
+        F extends (arg1: infer A1, arg2: infer A2, token: CancellationToken) => any ? (
+            F extends (arg1: any, arg2: any, token: infer T) => any ? IsAny<T> extends true ? [A1, A2, T] : [A1, A2] : never) :
+        F extends (arg1: infer A1, arg2: infer A2, arg3: infer A3, token: CancellationToken) => any ? (
+            F extends (arg1: any, arg2: any, arg3: any, token: infer T) => any ? IsAny<T> extends true ? [A1, A2, A3, T] : [A1, A2, A3] : never) :
+        F extends (arg1: infer A1, arg2: infer A2, arg3: infer A3, arg4: infer A4, token: CancellationToken) => any ? (
+            F extends (arg1: any, arg2: any, arg3: any, arg4: any, token: infer T) => any ? IsAny<T> extends true ? [A1, A2, A3, A4, T] : [A1, A2, A3, A4] : never) :
+        F extends (arg1: infer A1, arg2: infer A2, arg3: infer A3, arg4: infer A4, arg5: infer A5, token: CancellationToken) => any ? (
+            F extends (arg1: any, arg2: any, arg3: any, arg4: any, arg5: any, token: infer T) => any ? IsAny<T> extends true ? any[] : [A1, A2, A3, A4, A5] : never) :
+        any[]
+    ) : any;
+
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+
+/**
+ * A task that is only known to be a `Function` (e.g. a variable typed `Function`), whose arguments and result can't be inferred.
+ * The arguments of such tasks are not checked, and their result is typed `any`.
+ */
+export type UntypedFunction<F> = F extends TaskFunction ? never : F;
+
+/**
+ * Outcome of a finished task, see {@link SequentialTaskQueue.results}.
+ */
+export interface TaskOutcome {
+    /** Snapshot of the task. Its status is `"succeeded"`, `"failed"` or `"cancelled"`. */
+    task: TaskInfo;
+    /** The result of a task that succeeded. */
+    result?: any;
+    /** The error of a task that failed, or the reason of a task that was cancelled. */
+    error?: any;
 }
 
 /**
@@ -105,97 +519,674 @@ export interface CancellablePromiseLike<T> extends PromiseLike<T> {
     cancel(reason?: any): void;
 }
 
+/**
+ * Object returned by {@link SequentialTaskQueue.pushAsync}.
+ */
+export interface EnqueuedTask<T> {
+    /** Identifier of the task, see {@link TaskOptions.id}. */
+    id: any;
+    /** A promise that can be used to await or cancel the task, see {@link SequentialTaskQueue.push}. */
+    promise: CancellablePromiseLike<T>;
+}
+
+/**
+ * Options object for {@link SequentialTaskQueue.schedule}. Either {@link ScheduleOptions.every} or {@link ScheduleOptions.cron} must be specified.
+ * The remaining options are used for every task pushed to the queue.
+ * @typeparam A - Type of the {@link TaskOptions.args} property, see {@link TaskArgs}.
+ */
+export interface ScheduleOptions<A = any> extends TaskOptions<A> {
+    /**
+     * Interval between the runs of the task, in milliseconds.
+     */
+    every?: number;
+    /**
+     * A cron expression specifying when the task should be run, see {@link CronExpression}.
+     */
+    cron?: string;
+}
+
+/**
+ * Handle of a recurring task, returned by {@link SequentialTaskQueue.schedule}.
+ */
+export interface RecurringTask {
+    /** Indicates if the recurring task has been stopped. */
+    readonly isStopped: boolean;
+    /** Stops pushing the task to the queue. A task that has already been pushed is not cancelled. */
+    stop(): void;
+}
+
+/**
+ * Function returned by {@link SequentialTaskQueue.debounce} and {@link SequentialTaskQueue.throttle}.
+ * Calling it eventually pushes the original function to the queue with the arguments of the call,
+ * and returns a promise of the task's result. Calls that are merged into the same task receive the same result.
+ */
+export interface DeferredTaskFunction<F extends TaskFunction> {
+    (...args: any[]): PromiseLike<TaskResult<F>>;
+}
+
+/**
+ * Base class of {@link SequentialTaskQueue} and {@link TaskGroup}, for emitting events with typed handlers.
+ * An exception thrown by a handler is reported to the logger, and doesn't prevent calling the other handlers.
+ * @typeparam M - Signatures of the event handlers, by event name.
+ */
+export abstract class TypedEventEmitter<M extends { [E in keyof M]: Function }> {
+
+    private events = new Map<keyof M, Function[]>();
+    protected logger: Logger;
+
+    name: string;
+
+    /**
+     * Adds an event handler for a named event.
+     * @param {string} evt - Event name. See the readme and the event map of the class for a list of valid events.
+     * @param {Function} handler - Event handler. When invoking the handler, the emitter will set itself as the `this` argument of the call. 
+     */
+    on<E extends keyof M>(evt: E, handler: M[E]) {
+        var list = this.events.get(evt);
+        if (!list)
+            this.events.set(evt, list = []);
+        list.push(handler);
+    }
+
+    /**
+     * Adds a single-shot event handler for a named event.
+     * @param {string} evt - Event name. See the readme and the event map of the class for a list of valid events.
+     * @param {Function} handler - Event handler. When invoking the handler, the emitter will set itself as the `this` argument of the call. 
+     */
+    once<E extends keyof M>(evt: E, handler: M[E]) {
+        var cb: any = (...args: any[]) => {
+            this.removeListener(evt, cb);
+            handler.apply(this, args);
+        };
+        this.on(evt, cb);
+    }
+
+    /**
+     * Removes an event handler.
+     * @param {string} evt - Event name
+     * @param {Function} handler - Event handler to be removed
+     */
+    removeListener<E extends keyof M>(evt: E, handler: M[E]) {
+        var list = this.events.get(evt);
+        if (list) {
+            var i = 0;
+            while (i < list.length) {
+                if (list[i] === handler)
+                    list.splice(i, 1);
+                else
+                    i++;
+            }
+        }
+    }
+
+    /** @see {@link TypedEventEmitter.removeListener} */
+    off<E extends keyof M>(evt: E, handler: M[E]) {
+        return this.removeListener(evt, handler);
+    }
+
+    protected emit<E extends keyof M>(evt: E, ...args: any[]) {
+        var list = this.events.get(evt);
+        if (list)
+            // iterate over a copy, single-shot handlers remove themselves while being called
+            list.slice().forEach(fn => {
+                try { 
+                    fn.apply(this, args);
+                } catch (e) {
+                    this.logger.error(`${this.name}: Exception in '${evt}' event handler`, e);
+                }
+            });
+    }
+}
+
 /**
  * FIFO task queue to run tasks in predictable order, without concurrency.
  */
-export class SequentialTaskQueue {
+export class SequentialTaskQueue extends TypedEventEmitter<SequentialTaskQueueEventMap> {
 
     static defaultScheduler: Scheduler = {
         schedule: callback => setTimeout(<any>callback, 0)
     };
 
-    private queue: TaskEntry[] = [];
+    private queue = new TaskHeap();
+    private sequence: number = 0;
     private _isClosed: boolean = false;
+    private _isPaused: boolean = false;
     private waiters: Function[] = [];
     private defaultTimeout: number;
-    private currentTask: TaskEntry;
+    private runningTasks: TaskEntry[] = [];
     private scheduler: Scheduler;
-    private events: { [key: string]: Function[] };
+    private rateLimit: RateLimitOptions;
+    private startTimes: number[] = [];
+    private rateLimitHandle: any;
+    private maxSize: number;
+    private overflow: OverflowStrategy;
+    private cooperativeCancellation: boolean | number;
+    private onError: ErrorPolicy;
+    private blockedTasks: TaskEntry[] = [];
+    private pendingKeys = new Map<any, TaskEntry>();
+    private pendingCalls: PendingCall[] = [];
+    private recurringTasks: RecurringTask[] = [];
+    private closeListeners: Function[] = [];
+    private scheduledTasks = new TaskHeap(compareRunTimes);
+    private heldTasks: TaskEntry[] = [];
+    private settledTasks = new Map<any, boolean>();
+    private wakeHandle: any;
+    private wakeAt: number;
 
-    name: string;
+    /** Maximum number of tasks running at the same time. */
+    protected concurrency: number = 1;
 
     /** Indicates if the queue has been closed. Calling {@link SequentialTaskQueue.push} on a closed queue will result in an exception. */
     get isClosed() {
         return this._isClosed;
     }
 
+    /** Number of tasks in the queue, including running tasks. */
+    get size() {
+        return this.pendingCount + this.runningTasks.length;
+    }
+
+    /** Number of tasks waiting to be started, including scheduled tasks, tasks waiting for their dependencies and tasks waiting for room in a full queue. */
+    get pendingCount() {
+        return this.queue.length + this.blockedTasks.length + this.scheduledTasks.length + this.heldTasks.length;
+    }
+
+    /** Indicates if the number of waiting tasks has reached {@link SequentialTaskQueueOptions.maxSize}. */
+    get isFull() {
+        return this.maxSize !== undefined && this.queue.length >= this.maxSize;
+    }
+
+    /** Indicates if the queue is currently running a task. */
+    get isRunning() {
+        return this.runningTasks.length > 0;
+    }
+
+    /** Indicates if the queue has been paused. A paused queue doesn't start new tasks until {@link SequentialTaskQueue.resume} is called. */
+    get isPaused() {
+        return this._isPaused;
+    }
+
     /** 
      * Creates a new instance of {@link SequentialTaskQueue}
      * @param options - Configuration options for the task queue.
     */
     constructor(options?: SequentialTaskQueueOptions) {
+        super();
         if (!options)
             options = {};
         this.defaultTimeout = options.timeout;
         this.name = options.name || "SequentialTaskQueue";
         this.scheduler = options.scheduler || SequentialTaskQueue.defaultScheduler;
+        this.rateLimit = options.rateLimit;
+        this.maxSize = options.maxSize;
+        this.overflow = options.overflow || "throw";
+        this.cooperativeCancellation = options.cooperativeCancellation;
+        this.onError = options.onError || "continue";
+        this.logger = options.logger || console;
     }
 
     /**
      * Adds a new task to the queue.
      * @param {Function} task - The function to call when the task is run
      * @param {TaskOptions} options - An object containing arguments and options for the task.
-     * @returns {CancellablePromiseLike<any>} A promise that can be used to await or cancel the task.
+     * @returns {CancellablePromiseLike} A promise that can be used to await or cancel the task. 
+     * The promise is resolved with the value returned by the task (or the value of the `PromiseLike` returned by the task).
+     * When the queue is full, the outcome depends on {@link SequentialTaskQueueOptions.overflow}.
+     * Tasks typed `Function` are accepted too, see {@link UntypedFunction}.
      */
+    push<F extends Function>(task: F & UntypedFunction<F>, options?: TaskOptions): CancellablePromiseLike<any>;
+    push<F extends TaskFunction>(task: F, options?: TaskOptions<TaskArgs<F>>): CancellablePromiseLike<TaskResult<F>>;
     push(task: Function, options?: TaskOptions): CancellablePromiseLike<any> {
         if (this._isClosed)
-            throw new Error(`${this.name} has been previously closed`);
-        var taskEntry: TaskEntry = {
-            callback: task,
-            args: options && options.args ? (Array.isArray(options.args) ? options.args.slice() : [options.args]) : [],
-            timeout: options && options.timeout !== undefined ? options.timeout : this.defaultTimeout,
-            cancellationToken: {
-                cancel: (reason?) => this.cancelTask(taskEntry, reason)
-            },
-            resolve: undefined,
-            reject: undefined
-        };
-        taskEntry.args.push(taskEntry.cancellationToken);
-        this.queue.push(taskEntry);
-        this.scheduler.schedule(() => this.next());
-        var result = (new Promise((resolve, reject) => {
-            taskEntry.resolve = resolve;
-            taskEntry.reject = reject;
-        }) as any) as CancellablePromiseLike<any>;
-        result.cancel = (reason?: any) => taskEntry.cancellationToken.cancel(reason);
-        return result;
+            throw new QueueClosedError(this.name);
+        var coalesced = this.coalesce(task, options);
+        if (coalesced)
+            return coalesced.promise;
+        var taskEntry = this.createEntry(task, options);
+        this.enqueue(taskEntry, this.overflow);
+        return taskEntry.promise;
     }
 
     /**
-     * Cancels the currently running task (if any), and clears the queue.
-     * @returns {Promise} A Promise that is fulfilled when the queue is empty and the current task has been cancelled.
+     * Adds a new task to the queue, waiting for room if the queue is full, regardless of {@link SequentialTaskQueueOptions.overflow}.
+     * @param {Function} task - The function to call when the task is run
+     * @param {TaskOptions} options - An object containing arguments and options for the task.
+     * @returns {Promise} A promise that is fulfilled when the task has been added to the queue (or cancelled while waiting for room).
+     * The promise is resolved with an {@link EnqueuedTask} object, holding the promise of the task.
      */
-    cancel(): PromiseLike<any> {
-        if (this.currentTask) 
-            this.cancelTask(this.currentTask, cancellationTokenReasons.cancel);
-        var queue = this.queue.splice(0);
-        // Cancel all and emit a drained event if there were tasks waiting in the queue
-        if (queue.length) {
-            queue.forEach(task => this.cancelTask(task, cancellationTokenReasons.cancel));
-            this.emit(sequentialTaskQueueEvents.drained);
-        }
-        return this.wait();
-    }
-
-    /**
+    pushAsync<F extends Function>(task: F & UntypedFunction<F>, options?: TaskOptions): PromiseLike<EnqueuedTask<any>>;
+    pushAsync<F extends TaskFunction>(task: F, options?: TaskOptions<TaskArgs<F>>): PromiseLike<EnqueuedTask<TaskResult<F>>>;
+    pushAsync(task: Function, options?: TaskOptions): PromiseLike<EnqueuedTask<any>> {
+        if (this._isClosed)
+            return Promise.reject(new QueueClosedError(this.name));
+        var coalesced = this.coalesce(task, options);
+        if (coalesced)
+            return Promise.resolve(coalesced);
+        var taskEntry = this.createEntry(task, options);
+        return new Promise(resolve => {
+            var result = { id: taskEntry.id, promise: taskEntry.promise };
+            if (this.enqueue(taskEntry, "wait"))
+                taskEntry.unblock = () => resolve(result);
+            else
+                resolve(result);
+        });
+    }
+
+    /**
+     * Coalesces the task with a waiting task with the same key. Returns `undefined` if there is no such task.
+     */
+    private coalesce(task: Function, options: TaskOptions): EnqueuedTask<any> {
+        var existing = options && options.key !== undefined ? this.pendingKeys.get(options.key) : undefined;
+        if (!existing)
+            return undefined;
+        switch (options.coalesce) {
+            case "ignore":
+                var promise = Promise.resolve() as any as CancellablePromiseLike<any>;
+                promise.cancel = noop;
+                return { id: undefined, promise: promise };
+            case "replace":
+                existing.callback = task;
+                existing.args = getArgs(options);
+                existing.args.push(existing.cancellationToken);
+                existing.name = options.name;
+                existing.timeout = options.timeout !== undefined ? options.timeout : this.defaultTimeout;
+                existing.retry = getRetryOptions(options);
+                break;
+        }
+        return { id: existing.id, promise: existing.promise };
+    }
+
+    /**
+     * Creates a function that pushes `task` to the queue only after it hasn't been called for `wait` milliseconds.
+     * The task is called with the arguments of the last call, and all calls in between receive its result.
+     * Pending calls are pushed when the queue is closed, and rejected when the queue is cancelled.
+     * @param {Function} task - The function to call when the task is run
+     * @param {number} wait - Number of milliseconds to wait after the last call
+     * @param {TaskOptions} options - Options for the task. The `args` option is replaced with the arguments of the call.
+     */
+    debounce<F extends TaskFunction>(task: F, wait: number, options?: TaskOptions): DeferredTaskFunction<F> {
+        var call: PendingCall;
+        return (...args: any[]) => {
+            if (this._isClosed)
+                throw new QueueClosedError(this.name);
+            if (call)
+                clearTimer(this.scheduler, call.handle);
+            else
+                call = this.createPendingCall(task, options, () => call = undefined);
+            call.args = args;
+            call.handle = setTimer(this.scheduler, () => this.flushCall(call), wait);
+            return call.promise;
+        };
+    }
+
+    /**
+     * Creates a function that pushes `task` to the queue at most once every `wait` milliseconds. 
+     * The first call pushes the task immediately, further calls within `wait` milliseconds are merged into a single 
+     * task that is pushed at the end of the time window, with the arguments of the last call.
+     * Pending calls are pushed when the queue is closed, and rejected when the queue is cancelled.
+     * @param {Function} task - The function to call when the task is run
+     * @param {number} wait - Length of the time window, in milliseconds
+     * @param {TaskOptions} options - Options for the task. The `args` option is replaced with the arguments of the call.
+     */
+    throttle<F extends TaskFunction>(task: F, wait: number, options?: TaskOptions): DeferredTaskFunction<F> {
+        var call: PendingCall;
+        var lastPush = -Infinity;
+        return (...args: any[]) => {
+            if (this._isClosed)
+                throw new QueueClosedError(this.name);
+            var elapsed = this.now() - lastPush;
+            if (!call && elapsed >= wait) {
+                lastPush = this.now();
+                return this.push(task, Object.assign({}, options, { args: args }));
+            }
+            if (!call) {
+                call = this.createPendingCall(task, options, () => {
+                    call = undefined;
+                    lastPush = this.now();
+                });
+                call.handle = setTimer(this.scheduler, () => this.flushCall(call), wait - elapsed);
+            }
+            call.args = args;
+            return call.promise;
+        };
+    }
+
+    /**
+     * Pushes a task to the queue repeatedly, in fixed intervals or according to a cron expression.
+     * If the previous run of the task hasn't finished yet (e.g. because the queue is busy running other tasks), the run is skipped.
+     * The recurring task is stopped when the queue is closed.
+     * @param {Function} task - The function to call when the task is run
+     * @param {ScheduleOptions} options - An object specifying the schedule, and the options for the task.
+     * @returns {RecurringTask} A handle that can be used to stop the recurring task.
+     */
+    schedule<F extends TaskFunction>(task: F, options: ScheduleOptions<TaskArgs<F>>): RecurringTask {
+        if (this._isClosed)
+            throw new QueueClosedError(this.name);
+        var cron = options.cron !== undefined ? new CronExpression(options.cron) : undefined;
+        if (!cron && !(options.every > 0))
+            throw new Error("Either a positive 'every' interval or a 'cron' expression is required");
+        var stopped = false;
+        var pending = false;
+        var handle: any;
+        var recurringTask: RecurringTask = {
+            get isStopped() {
+                return stopped;
+            },
+            stop: () => {
+                if (stopped)
+                    return;
+                stopped = true;
+                clearTimer(this.scheduler, handle);
+                this.recurringTasks.splice(this.recurringTasks.indexOf(recurringTask), 1);
+            }
+        };
+        var scheduleNext = () => {
+            var now = this.now();
+            var nextRun = cron ? cron.next(new Date(now)) : undefined;
+            if (cron && !nextRun)
+                return recurringTask.stop();
+            handle = setTimer(this.scheduler, tick, cron ? nextRun.getTime() - now : options.every);
+        };
+        var tick = () => {
+            scheduleNext();
+            if (pending)
+                return;
+            pending = true;
+            var done = () => pending = false;
+            try {
+                this.push(task, options).then(done, done);
+            } catch (e) {
+                done();
+                this.emit(sequentialTaskQueueEvents.error, e);
+            }
+        };
+        this.recurringTasks.push(recurringTask);
+        scheduleNext();
+        return recurringTask;
+    }
+
+    private createPendingCall(task: TaskFunction, options: TaskOptions, release: () => void): PendingCall {
+        var call: PendingCall = {
+            task: task,
+            options: options,
+            release: release,
+            promise: undefined,
+            resolve: undefined,
+            reject: undefined
+        };
+        call.promise = new Promise((resolve, reject) => {
+            call.resolve = resolve;
+            call.reject = reject;
+        });
+        this.pendingCalls.push(call);
+        return call;
+    }
+
+    private removePendingCall(call: PendingCall) {
+        var index = this.pendingCalls.indexOf(call);
+        if (index !== -1)
+            this.pendingCalls.splice(index, 1);
+        clearTimer(this.scheduler, call.handle);
+        call.release();
+    }
+
+    private flushCall(call: PendingCall) {
+        this.removePendingCall(call);
+        try {
+            this.push(call.task, Object.assign({}, call.options, { args: call.args })).then(call.resolve, call.reject);
+        } catch (e) {
+            call.reject(e);
+        }
+    }
+
+    private createEntry(task: Function, options: TaskOptions): TaskEntry {
+        var sequence = this.sequence++;
+        var taskEntry: TaskEntry = {
+            id: options && options.id !== undefined ? options.id : sequence,
+            name: options && options.name,
+            key: options && options.key,
+            status: "pending",
+            enqueuedAt: this.now(),
+            runAt: getRunTime(options, this.now()),
+            callback: task,
+            args: getArgs(options),
+            timeout: options && options.timeout !== undefined ? options.timeout : this.defaultTimeout,
+            priority: options && options.priority || 0,
+            sequence: sequence,
+            retry: getRetryOptions(options),
+            dependsOn: options && options.dependsOn && options.dependsOn.length ? options.dependsOn.slice() : undefined,
+            attempt: 0,
+            signal: options && options.signal,
+            cooperativeCancellation: options && options.cooperativeCancellation !== undefined ? options.cooperativeCancellation : this.cooperativeCancellation,
+            cancellationToken: {
+                cancel: (reason?) => this.cancelTask(taskEntry, reason),
+                onCancelled: callback => {
+                    if (taskEntry.cancellationToken.cancelled)
+                        callback(taskEntry.cancellationToken.reason);
+                    else
+                        (taskEntry.cancelCallbacks || (taskEntry.cancelCallbacks = [])).push(callback);
+                },
+                throwIfCancelled: () => {
+                    if (taskEntry.cancellationToken.cancelled)
+                        throw this.getCancellationReason(taskEntry);
+                },
+                get signal() {
+                    return getAbortSignal(taskEntry);
+                }
+            },
+            resolve: undefined,
+            reject: undefined
+        };
+        taskEntry.args.push(taskEntry.cancellationToken);
+        taskEntry.promise = (new Promise((resolve, reject) => {
+            taskEntry.resolve = resolve;
+            taskEntry.reject = reject;
+        }) as any) as CancellablePromiseLike<any>;
+        taskEntry.promise.cancel = (reason?: any) => taskEntry.cancellationToken.cancel(reason);
+        return taskEntry;
+    }
+
+    /**
+     * Adds the entry to the queue, handling overflow with the given strategy. 
+     * Returns `true` if the entry has to wait for room in the queue.
+     */
+    private enqueue(taskEntry: TaskEntry, overflow: OverflowStrategy): boolean {
+        var held = !!taskEntry.dependsOn;
+        var scheduled = !held && taskEntry.runAt > this.now();
+        var full = !held && !scheduled && this.isFull;
+        if (full && overflow === "throw")
+            throw new Error(`${this.name} is full`);
+        if (held && this.hasCircularDependency(taskEntry))
+            throw new Error(`${this.name}: Task '${taskEntry.id}' has a circular dependency`);
+        var unknown = held ? taskEntry.dependsOn.filter(dependency => !isPromise(dependency) && !this.findTask(dependency) && !this.settledTasks.has(dependency)) : [];
+        if (unknown.length)
+            throw new Error(`${this.name}: Task '${taskEntry.id}' depends on unknown task '${unknown[0]}'`);
+        var blocked = full && overflow === "wait";
+        var rejected = full && overflow === "reject";
+        if (full && overflow === "dropOldest")
+            this.dropOldest();
+        if (held) {
+            taskEntry.status = "waiting";
+            taskEntry.overflow = overflow;
+            this.heldTasks.push(taskEntry);
+        }
+        else if (scheduled) {
+            taskEntry.status = "scheduled";
+            this.scheduledTasks.push(taskEntry);
+            this.scheduleWake();
+        }
+        else if (blocked)
+            this.blockedTasks.push(taskEntry);
+        else if (!rejected) {
+            this.queue.push(taskEntry);
+            this.scheduler.schedule(() => this.next());
+        }
+        if (taskEntry.key !== undefined)
+            this.pendingKeys.set(taskEntry.key, taskEntry);
+        // a rejected task never enters the queue, only its cancellation is reported
+        if (!rejected)
+            this.emit(sequentialTaskQueueEvents.enqueued, getTaskInfo(taskEntry));
+        var signal = taskEntry.signal;
+        if (rejected)
+            this.cancelTask(taskEntry, cancellationTokenReasons.overflow);
+        else if (signal) {
+            if (signal.aborted)
+                this.cancelTask(taskEntry, signal.reason);
+            else {
+                taskEntry.onAbort = () => this.cancelTask(taskEntry, signal.reason);
+                signal.addEventListener("abort", taskEntry.onAbort);
+            }
+        }
+        if (held && !taskEntry.cancellationToken.cancelled)
+            this.waitForDependencies(taskEntry);
+        return blocked && !taskEntry.cancellationToken.cancelled;
+    }
+
+    private hasCircularDependency(taskEntry: TaskEntry): boolean {
+        var visited = new Set<TaskEntry>();
+        var visit = (dependsOn: any[]): boolean => dependsOn.some(dependency => {
+            if (!isPromise(dependency) && dependency === taskEntry.id)
+                return true;
+            var entry = this.findDependency(dependency);
+            if (!entry || !entry.dependsOn || visited.has(entry))
+                return false;
+            visited.add(entry);
+            return visit(entry.dependsOn);
+        });
+        return visit(taskEntry.dependsOn);
+    }
+
+    /** Remembers the outcome of a finished task, so that tasks pushed later can depend on it. */
+    private rememberTask(task: TaskEntry) {
+        this.settledTasks.delete(task.id);
+        this.settledTasks.set(task.id, task.status === "succeeded");
+        if (this.settledTasks.size > settledTaskHistory)
+            this.settledTasks.delete(this.settledTasks.keys().next().value);
+    }
+
+    private findDependency(dependency: any): TaskEntry {
+        return isPromise(dependency) ? this.findEntry(entry => entry.promise === dependency) : this.findTask(dependency);
+    }
+
+    private waitForDependencies(taskEntry: TaskEntry) {
+        taskEntry.pendingDependencies = taskEntry.dependsOn.length;
+        taskEntry.dependsOn.forEach(dependency => {
+            if (isPromise(dependency)) {
+                this.addDependency(taskEntry, dependency);
+                return;
+            }
+            var entry = this.findTask(dependency);
+            if (entry)
+                this.addDependency(taskEntry, entry.promise);
+            else
+                this.addDependency(taskEntry, this.settledTasks.get(dependency) ? Promise.resolve() : Promise.reject(undefined));
+        });
+    }
+
+    private addDependency(taskEntry: TaskEntry, dependency: PromiseLike<any>) {
+        dependency.then(() => {
+            if (--taskEntry.pendingDependencies === 0 && this.heldTasks.indexOf(taskEntry) !== -1)
+                this.releaseTask(taskEntry);
+        }, () => {
+            if (this.heldTasks.indexOf(taskEntry) !== -1)
+                this.cancelTask(taskEntry, cancellationTokenReasons.dependency);
+        });
+    }
+
+    private releaseTask(taskEntry: TaskEntry) {
+        this.heldTasks.splice(this.heldTasks.indexOf(taskEntry), 1);
+        if (taskEntry.runAt > this.now()) {
+            taskEntry.status = "scheduled";
+            this.scheduledTasks.push(taskEntry);
+            this.scheduleWake();
+            return;
+        }
+        taskEntry.status = "pending";
+        if (this.isFull) {
+            // the task has already been accepted, so instead of throwing, it is rejected when the queue is full
+            if (taskEntry.overflow === "wait") {
+                this.blockedTasks.push(taskEntry);
+                return;
+            }
+            if (taskEntry.overflow !== "dropOldest") {
+                this.cancelTask(taskEntry, cancellationTokenReasons.overflow);
+                return;
+            }
+            this.dropOldest();
+        }
+        this.queue.push(taskEntry);
+        this.scheduler.schedule(() => this.next());
+    }
+
+    private dropOldest() {
+        var oldest = this.queue.oldest();
+        if (oldest) {
+            // remove it first, so that cancelling it doesn't admit a blocked task to the slot of the new task
+            this.queue.remove(oldest);
+            this.cancelTask(oldest, cancellationTokenReasons.overflow);
+        }
+    }
+
+    /**
+     * Cancels the currently running tasks (if any), and clears the queue.
+     * @returns {Promise} A Promise that is fulfilled when the queue is empty and the running tasks have been cancelled.
+     */
+    cancel(): PromiseLike<any> {
+        this.pendingCalls.slice().forEach(call => {
+            this.removePendingCall(call);
+            call.reject(new TaskCancelledError(this.name, call.options && call.options.name));
+        });
+        this.runningTasks.slice().forEach(task => this.cancelTask(task, cancellationTokenReasons.cancel));
+        var queue = this.queue.clear().concat(this.blockedTasks, this.scheduledTasks.clear(), this.heldTasks);
+        this.scheduleWake();
+        // Cancel all and emit a drained event if there were tasks waiting in the queue.
+        // Tasks that are cancelled cooperatively are still running, the event is emitted when they have finished.
+        queue.forEach(task => this.cancelTask(task, cancellationTokenReasons.cancel));
+        if (queue.length && this.isIdle)
+            this.emit(sequentialTaskQueueEvents.drained);
+        // A paused queue might not have a pending call to next, so notify the waiters here
+        if (this.isIdle)
+            this.callWaiters();
+        return this.wait();
+    }
+
+    /**
+     * Pauses the queue. Running tasks are allowed to finish, but no new tasks are started until {@link SequentialTaskQueue.resume} is called.
+     * Tasks can still be pushed to a paused queue.
+     */
+    pause() {
+        if (!this._isPaused) {
+            this._isPaused = true;
+            this.emit(sequentialTaskQueueEvents.paused);
+        }
+    }
+
+    /**
+     * Resumes a paused queue.
+     */
+    resume() {
+        if (this._isPaused) {
+            this._isPaused = false;
+            this.emit(sequentialTaskQueueEvents.resumed);
+            this.scheduler.schedule(() => this.next());
+        }
+    }
+
+    /**
      * Closes the queue, preventing new tasks to be added. 
      * Any calls to {@link SequentialTaskQueue.push} after closing the queue will result in an exception.
+     * Closing a paused queue doesn't resume it, the remaining tasks are run after calling {@link SequentialTaskQueue.resume}.
      * @param {boolean} cancel - Indicates that the queue should also be cancelled.
      * @returns {Promise} A Promise that is fulfilled when the queue has finished executing remaining tasks.  
      */
     close(cancel?: boolean): PromiseLike<any> {
         if (!this._isClosed) {
+            this.recurringTasks.slice().forEach(task => task.stop());
+            // debounced and throttled calls are pushed before closing the queue
+            if (!cancel)
+                this.pendingCalls.slice().forEach(call => this.flushCall(call));
             this._isClosed = true;
+            this.closeListeners.splice(0).forEach(listener => listener());
             if (cancel)
                 return this.cancel();
         }
@@ -203,11 +1194,13 @@ export class SequentialTaskQueue {
     }
 
     /**
-     * Returns a promise that is fulfilled when the queue is empty.
+     * Returns a promise that is fulfilled when the queue is empty. 
+     * When the queue is paused, the promise is not fulfilled until the queue is resumed and the remaining tasks have finished.
+     * Scheduled tasks (see {@link TaskOptions.runAt}) are waited for, too.
      * @returns {Promise}
      */
     wait(): PromiseLike<any> {
-        if (!this.currentTask && this.queue.length === 0)
+        if (this.isIdle)
             return Promise.resolve();
         return new Promise(resolve => {
             this.waiters.push(resolve);
@@ -215,131 +1208,396 @@ export class SequentialTaskQueue {
     }
 
     /**
-     * Adds an event handler for a named event.
-     * @param {string} evt - Event name. See the readme for a list of valid events.
-     * @param {Function} handler - Event handler. When invoking the handler, the queue will set itself as the `this` argument of the call. 
+     * Returns a snapshot of the tasks in the queue: the running tasks, followed by the waiting tasks in the order they will be run.
+     * Tasks waiting for room in a full queue are listed next, followed by the scheduled tasks in the order they become due,
+     * and the tasks waiting for their dependencies.
      */
-    on(evt: string, handler: Function) {
-        this.events = this.events || {};
-        (this.events[evt] || (this.events[evt] = [])).push(handler);     
+    getTasks(): TaskInfo[] {
+        return this.runningTasks.concat(this.queue.toArray(), this.blockedTasks, this.scheduledTasks.toArray(), this.heldTasks).map(getTaskInfo);
     }
 
     /**
-     * Adds a single-shot event handler for a named event.
-     * @param {string} evt - Event name. See the readme for a list of valid events.
-     * @param {Function} handler - Event handler. When invoking the handler, the queue will set itself as the `this` argument of the call. 
+     * Returns a snapshot of a running or waiting task, or `undefined` if the queue has no such task.
+     * @param id - The identifier of the task, see {@link TaskOptions.id}.
      */
-    once(evt: string, handler: Function) {
-        var cb = (...args: any[]) => {
-            this.removeListener(evt, cb);
-            handler.apply(this, args);
-        };
-        this.on(evt, cb);
+    getTask(id: any): TaskInfo {
+        var entry = this.findTask(id);
+        return entry && getTaskInfo(entry);
     }
 
     /**
-     * Removes an event handler.
-     * @param {string} evt - Event name
-     * @param {Function} handler - Event handler to be removed
+     * Creates a {@link TaskGroup} for pushing a related set of tasks to the queue, that can be awaited and cancelled together.
+     * @param {string} name - Name of the group for diagnostic purposes.
      */
-    removeListener(evt: string, handler: Function) {
-        if (this.events) {
-            var list = this.events[evt];
-            if (list) {
-                var i = 0;
-                while (i < list.length) {
-                    if (list[i] === handler)
-                        list.splice(i, 1);
-                    else
-                        i++;
-                }
-            }
-        }
+    group(name?: string): TaskGroup {
+        return new TaskGroup(this, { name: name, logger: this.logger });
     }
 
-    /** @see {@link SequentialTaskQueue.removeListener} */
-    off(evt: string, handler: Function) {
-        return this.removeListener(evt, handler);
+    /**
+     * Returns an `AsyncIterable` of the outcomes of the tasks, in the order they finish.
+     * Every iterator receives the outcomes of the tasks finished after it has been created.
+     * The iteration ends when the queue has been closed and all of its tasks have finished.
+     * @example
+     * for await (let outcome of queue.results())
+     *     console.log(outcome.task.id, outcome.task.status, outcome.result);
+     */
+    results(): AsyncIterable<TaskOutcome> {
+        return {
+            [Symbol.asyncIterator]: () => this.createResultIterator()
+        };
     }
 
-    protected emit(evt: string, ...args: any[]) {
-        if (this.events && this.events[evt])
-            try { 
-                this.events[evt].forEach(fn => fn.apply(this, args));
-            } catch (e) {
-                console.error(`${this.name}: Exception in '${evt}' event handler`, e);
+    private createResultIterator(): AsyncIterator<TaskOutcome> {
+        var outcomes: TaskOutcome[] = [];
+        var readers: ((result: IteratorResult<TaskOutcome>) => void)[] = [];
+        var done = false;
+        var add = (outcome: TaskOutcome) => {
+            if (readers.length)
+                readers.shift()({ value: outcome, done: false });
+            else
+                outcomes.push(outcome);
+        };
+        var onSucceeded = (task: TaskInfo, result: any) => add({ task: task, result: result });
+        var onFailed = (task: TaskInfo, error: any) => add({ task: task, error: error });
+        var finish = () => {
+            if (done)
+                return;
+            done = true;
+            var index = this.closeListeners.indexOf(onClosed);
+            if (index !== -1)
+                this.closeListeners.splice(index, 1);
+            this.removeListener(sequentialTaskQueueEvents.succeeded, onSucceeded);
+            this.removeListener(sequentialTaskQueueEvents.failed, onFailed);
+            this.removeListener(sequentialTaskQueueEvents.cancelled, onFailed);
+            readers.splice(0).forEach(reader => reader({ value: undefined, done: true }));
+        };
+        this.on(sequentialTaskQueueEvents.succeeded, onSucceeded);
+        this.on(sequentialTaskQueueEvents.failed, onFailed);
+        this.on(sequentialTaskQueueEvents.cancelled, onFailed);
+        var onClosed = () => this.wait().then(finish);
+        if (this._isClosed)
+            onClosed();
+        else
+            this.closeListeners.push(onClosed);
+        return {
+            next: () => {
+                if (outcomes.length)
+                    return Promise.resolve({ value: outcomes.shift(), done: false });
+                if (done)
+                    return Promise.resolve({ value: undefined, done: true });
+                return new Promise<IteratorResult<TaskOutcome>>(resolve => readers.push(resolve));
+            },
+            return: () => {
+                outcomes = [];
+                finish();
+                return Promise.resolve({ value: undefined, done: true });
             }
+        };
     }
 
     protected next() {
-        // Try running the next task, if not currently running one 
-        if (!this.currentTask) {
+        // Try running the next tasks, if the number of running tasks is below the concurrency limit
+        var available = this._isPaused ? 0 : this.concurrency - this.runningTasks.length;
+        while (available-- > 0) {
             var task = this.queue.shift();
             // skip cancelled tasks
             while (task && task.cancellationToken.cancelled)
                 task = this.queue.shift();
-            if (task) {
-                try {
-                    this.currentTask = task;
-                    if (task.timeout) {
-                        task.timeoutHandle = setTimeout(
-                            () => {
-                                this.emit(sequentialTaskQueueEvents.timeout);
-                                this.cancelTask(task, cancellationTokenReasons.timeout);
-                            }, 
-                            task.timeout);
-                    }
-                    let res = task.callback.apply(undefined, task.args);
-                    if (res && isPromise(res)) {
-                        res.then(result => {
-                                task.result = result;
-                                this.doneTask(task);
-                            },
-                            err => {
-                                this.doneTask(task, err);
-                            });
-                    } else {
-                        task.result = res;
-                        this.doneTask(task);
-                    }
-
-                } catch (e) {
-                    this.doneTask(task, e);
+            if (!task)
+                break;
+            if (this.rateLimit) {
+                let delay = this.getRateLimitDelay();
+                if (delay > 0) {
+                    // put the task back, it keeps its original position in the queue
+                    this.queue.push(task);
+                    this.delayNext(delay);
+                    break;
                 }
+                this.startTimes.push(this.now());
+            }
+            this.runTask(task);
+        }
+        this.admitBlockedTasks();
+        if (this.isIdle) {
+            // queue is empty, call waiters
+            this.callWaiters();
+        }
+    }
+
+    private findTask(id: any): TaskEntry {
+        return this.findEntry(entry => entry.id === id);
+    }
+
+    private findEntry(predicate: (entry: TaskEntry) => boolean): TaskEntry {
+        return this.runningTasks.find(predicate) || this.queue.find(predicate) || this.blockedTasks.find(predicate) 
+            || this.scheduledTasks.find(predicate) || this.heldTasks.find(predicate);
+    }
+
+    private get isIdle() {
+        return !this.runningTasks.length && !this.queue.length && !this.scheduledTasks.length && !this.heldTasks.length;
+    }
+
+    private scheduleWake() {
+        var first = this.scheduledTasks.peek();
+        if (this.wakeHandle && (!first || this.wakeAt > first.runAt)) {
+            clearTimer(this.scheduler, this.wakeHandle);
+            this.wakeHandle = undefined;
+        }
+        if (first && !this.wakeHandle) {
+            this.wakeAt = first.runAt;
+            this.wakeHandle = setTimer(this.scheduler, () => {
+                this.wakeHandle = undefined;
+                this.wake();
+            }, Math.max(0, first.runAt - this.now()));
+        }
+    }
+
+    private wake() {
+        // move the tasks that became due to the queue
+        var now = this.now();
+        var first: TaskEntry;
+        while ((first = this.scheduledTasks.peek()) && first.runAt <= now) {
+            this.scheduledTasks.shift();
+            first.status = "pending";
+            this.queue.push(first);
+        }
+        this.scheduleWake();
+        this.next();
+    }
+
+    private admitBlockedTasks() {
+        while (this.blockedTasks.length && !this.isFull) {
+            var task = this.blockedTasks.shift();
+            this.queue.push(task);
+            this.scheduler.schedule(() => this.next());
+            if (task.unblock)
+                task.unblock();
+        }
+    }
+
+    private getRateLimitDelay() {
+        var now = this.now();
+        var windowStart = now - this.rateLimit.interval;
+        while (this.startTimes.length && this.startTimes[0] <= windowStart)
+            this.startTimes.shift();
+        if (this.startTimes.length < this.rateLimit.limit)
+            return 0;
+        return this.startTimes[0] - windowStart;
+    }
+
+    private delayNext(delay: number) {
+        if (this.rateLimitHandle)
+            return;
+        this.rateLimitHandle = setTimer(this.scheduler, () => {
+            this.rateLimitHandle = undefined;
+            this.next();
+        }, delay);
+        this.emit(sequentialTaskQueueEvents.rateLimited, delay);
+    }
+
+    private now() {
+        return this.scheduler.now ? this.scheduler.now() : Date.now();
+    }
+
+    private releaseKey(task: TaskEntry) {
+        if (task.key !== undefined && this.pendingKeys.get(task.key) === task)
+            this.pendingKeys.delete(task.key);
+    }
+
+    private runTask(task: TaskEntry) {
+        this.releaseKey(task);
+        this.runningTasks.push(task);
+        task.status = "running";
+        task.startedAt = this.now();
+        this.emit(sequentialTaskQueueEvents.started, getTaskInfo(task));
+        if (task.timeout) {
+            task.timeoutHandle = setTimer(this.scheduler,
+                () => {
+                    this.emit(sequentialTaskQueueEvents.timeout, getTaskInfo(task));
+                    this.cancelTask(task, cancellationTokenReasons.timeout);
+                }, 
+                task.timeout);
+        }
+        this.invokeTask(task);
+    }
+
+    private invokeTask(task: TaskEntry) {
+        try {
+            task.attempt++;
+            let res = task.callback.apply(undefined, task.args);
+            if (res && isPromise(res)) {
+                task.inProgress = true;
+                res.then(result => {
+                        task.inProgress = false;
+                        task.result = result;
+                        this.doneTask(task);
+                    },
+                    err => {
+                        task.inProgress = false;
+                        // a task that was cancelled cooperatively is expected to fail with the cancellation
+                        if (task.cancelling)
+                            this.doneTask(task);
+                        else
+                            this.failTask(task, err);
+                    });
             } else {
-                // queue is empty, call waiters
-                this.callWaiters(); 
+                task.result = res;
+                this.doneTask(task);
             }
+
+        } catch (e) {
+            this.failTask(task, e);
+        }
+    }
+
+    private failTask(task: TaskEntry, error: any) {
+        var retry = task.retry;
+        if (!retry || task.cancellationToken.cancelled || task.attempt >= (retry.attempts || 3)
+            || (retry.retryIf && !retry.retryIf(error, task.attempt))) {
+            this.doneTask(task, error);
+            return;
         }
+        this.emit(sequentialTaskQueueEvents.retry, error, task.attempt);
+        // The task keeps its place among the running tasks while waiting for the next attempt, 
+        // and cancelling it (or the timeout expiring) clears the retry timer in doneTask.
+        if (!task.cancellationToken.cancelled)
+            task.retryHandle = setTimer(this.scheduler, () => {
+                task.retryHandle = undefined;
+                this.invokeTask(task);
+            }, getRetryDelay(retry, task.attempt));
     }
 
     private cancelTask(task: TaskEntry, reason?: any) {
+        if (task.cancelling)
+            return;
         task.cancellationToken.cancelled = true;
         task.cancellationToken.reason = reason;
+        if (task.abortController)
+            task.abortController.abort(getAbortReason(reason));
+        if (task.cancelCallbacks)
+            task.cancelCallbacks.splice(0).forEach(callback => {
+                try {
+                    callback(reason);
+                } catch (e) {
+                    this.logger.error(`${this.name}: Exception in cancellation callback`, e);
+                }
+            });
+        // remove the task from the queue, so that it isn't counted as pending
+        if (this.queue.remove(task)) {
+            this.scheduler.schedule(() => this.next());
+            this.admitBlockedTasks();
+        }
+        if (this.scheduledTasks.remove(task)) {
+            this.scheduler.schedule(() => this.next());
+            this.scheduleWake();
+        }
+        var index = this.blockedTasks.indexOf(task);
+        if (index !== -1) {
+            this.blockedTasks.splice(index, 1);
+            if (task.unblock)
+                task.unblock();
+        }
+        index = this.heldTasks.indexOf(task);
+        if (index !== -1) {
+            this.heldTasks.splice(index, 1);
+            this.scheduler.schedule(() => this.next());
+        }
+        if (task.inProgress && task.cooperativeCancellation) {
+            // the task stays among the running tasks until its promise is settled or the grace period has passed
+            task.cancelling = true;
+            task.cancellationToken.cancel = noop;
+            if (task.timeoutHandle)
+                clearTimer(this.scheduler, task.timeoutHandle);
+            if (typeof task.cooperativeCancellation === "number" && isFinite(task.cooperativeCancellation))
+                task.graceHandle = setTimer(this.scheduler, () => this.doneTask(task), task.cooperativeCancellation);
+            return;
+        }
         this.doneTask(task);
     }
 
     private doneTask(task: TaskEntry, error?: any) {
         if (task.timeoutHandle)
-            clearTimeout(task.timeoutHandle);
+            clearTimer(this.scheduler, task.timeoutHandle);
+        if (task.retryHandle)
+            clearTimer(this.scheduler, task.retryHandle);
+        if (task.graceHandle)
+            clearTimer(this.scheduler, task.graceHandle);
+        if (task.signal)
+            task.signal.removeEventListener("abort", task.onAbort);
         task.cancellationToken.cancel = noop;
+        this.releaseKey(task);
+        // A cancelled task can still fail later, but the lifecycle events are emitted only once
+        var finished = task.status !== "scheduled" && task.status !== "waiting" && task.status !== "pending" && task.status !== "running";
+        if (!finished)
+            task.finishedAt = this.now();
         if (error) {
+            if (!finished) {
+                task.status = "failed";
+                this.emit(sequentialTaskQueueEvents.failed, getTaskInfo(task), error);
+            }
             this.emit(sequentialTaskQueueEvents.error, error);
             task.reject.call(undefined, error);
-        } else if (task.cancellationToken.cancelled)
-            task.reject.call(undefined, task.cancellationToken.reason)
-        else
+        } else if (task.cancellationToken.cancelled) {
+            if (!finished) {
+                task.status = "cancelled";
+                this.emit(sequentialTaskQueueEvents.cancelled, getTaskInfo(task), this.getCancellationReason(task));
+            }
+            task.reject.call(undefined, this.getCancellationReason(task))
+        } else {
+            if (!finished) {
+                task.status = "succeeded";
+                this.emit(sequentialTaskQueueEvents.succeeded, getTaskInfo(task), task.result);
+            }
             task.resolve.call(undefined, task.result);
+        }
+        if (!finished)
+            this.rememberTask(task);
         
-        if (this.currentTask === task) {
-            this.currentTask = undefined;
-            if (!this.queue.length) {
+        var index = this.runningTasks.indexOf(task);
+        if (index !== -1) {
+            this.runningTasks.splice(index, 1);
+            if (this.queue.length)
+                this.scheduler.schedule(() => this.next());
+            else if (this.isIdle) {
                 this.emit(sequentialTaskQueueEvents.drained);
                 this.callWaiters();
             }
-            else
-                this.scheduler.schedule(() => this.next());
         }
+        if (error && !finished)
+            this.applyErrorPolicy();
+    }
+
+    private applyErrorPolicy() {
+        switch (this.onError) {
+            case "pause":
+                this.pause();
+                break;
+            case "cancel":
+                this.cancel();
+                break;
+            case "close":
+                this.close();
+                break;
+        }
+    }
+
+    /** 
+     * Returns the value the promise of a cancelled task is rejected with: a {@link TaskCancelledError} for the standard
+     * cancellation reasons, or the reason itself otherwise.
+     */
+    private getCancellationReason(task: TaskEntry): any {
+        var reason = task.cancellationToken.reason;
+        if (!isStandardReason(reason))
+            return reason;
+        if (!task.cancellationError) {
+            var label = task.name !== undefined ? task.name : String(task.id);
+            var elapsed = (task.finishedAt !== undefined ? task.finishedAt : this.now()) 
+                - (task.startedAt !== undefined ? task.startedAt : task.enqueuedAt);
+            task.cancellationError = reason === cancellationTokenReasons.timeout
+                ? new TaskTimeoutError(this.name, label, elapsed)
+                : new TaskCancelledError(this.name, label, elapsed, reason);
+        }
+        return task.cancellationError;
     }
 
     private callWaiters() {
@@ -348,17 +1606,432 @@ export class SequentialTaskQueue {
     }
 }
 
+/**
+ * Object used for passing configuration options to the {@link ConcurrentTaskQueue} constructor.
+ */
+export interface ConcurrentTaskQueueOptions extends SequentialTaskQueueOptions {
+    /**
+     * Maximum number of tasks running at the same time. Default is 1.
+     */
+    concurrency?: number;
+}
+
+/**
+ * Task queue that runs up to {@link ConcurrentTaskQueueOptions.concurrency} tasks at the same time.
+ * Tasks are started in the same order as in {@link SequentialTaskQueue}, but a task doesn't have to wait for the previous
+ * ones to finish. The `drained` event is emitted and {@link SequentialTaskQueue.wait} is fulfilled when all running tasks have finished.
+ */
+export class ConcurrentTaskQueue extends SequentialTaskQueue {
+
+    /** 
+     * Creates a new instance of {@link ConcurrentTaskQueue}
+     * @param options - Configuration options for the task queue.
+    */
+    constructor(options?: ConcurrentTaskQueueOptions) {
+        if (!options)
+            options = {};
+        super(options);
+        this.name = options.name || "ConcurrentTaskQueue";
+        this.concurrency = options.concurrency > 0 ? options.concurrency : 1;
+    }
+}
+
+/**
+ * Object used for passing configuration options to the {@link TaskGroup} constructor.
+ */
+export interface TaskGroupOptions {
+    /**
+     * Name of the group for diagnostic purposes. The name does not need to be unique.
+     */
+    name?: string;
+    /**
+     * Logger used for reporting exceptions thrown in event handlers. Default is `console`.
+     */
+    logger?: Logger;
+}
+
+/**
+ * Object used for passing options to {@link TaskGroup.wait}.
+ */
+export interface TaskGroupWaitOptions {
+    /**
+     * When `true`, the promise is resolved when all tasks have finished, with an array of {@link SettledResult} objects,
+     * like the one returned by `Promise.allSettled`. Default is `false`.
+     */
+    settled?: boolean;
+}
+
+/**
+ * Outcome of a task in a {@link TaskGroup}, see {@link TaskGroupWaitOptions.settled}.
+ */
+export type SettledResult<T = any> = { status: "fulfilled", value: T } | { status: "rejected", reason: any };
+
+/**
+ * Progress of a {@link TaskGroup}, see {@link TaskGroup.progress}.
+ */
+export interface TaskGroupProgress {
+    /** Number of tasks in the group that have finished (succeeded, failed or were cancelled). */
+    completed: number;
+    /** Number of tasks pushed to the group. */
+    total: number;
+}
+
+/**
+ * Signatures of the event handlers of {@link TaskGroup}, by event name.
+ * When invoking a handler, the group sets itself as the `this` argument of the call.
+ */
+export interface TaskGroupEventMap {
+    /** Emitted every time a task in the group has finished. */
+    progress: (this: TaskGroup, progress: TaskGroupProgress) => void;
+}
+
+/**
+ * A related set of tasks in a {@link SequentialTaskQueue}, see {@link SequentialTaskQueue.group}.
+ * The tasks are run by the queue like any other task, but they can be awaited and cancelled together,
+ * without affecting the other tasks in the queue.
+ */
+export class TaskGroup extends TypedEventEmitter<TaskGroupEventMap> {
+
+    private promises: CancellablePromiseLike<any>[] = [];
+    private completed: number = 0;
+
+    /** Number of finished tasks, and the number of all tasks in the group. */
+    get progress(): TaskGroupProgress {
+        return { completed: this.completed, total: this.promises.length };
+    }
+
+    /**
+     * Creates a new instance of {@link TaskGroup}
+     * @param {SequentialTaskQueue} queue - The queue that runs the tasks of the group.
+     * @param options - Configuration options for the group.
+     */
+    constructor(readonly queue: SequentialTaskQueue, options?: TaskGroupOptions) {
+        super();
+        if (!options)
+            options = {};
+        this.name = options.name || "TaskGroup";
+        this.logger = options.logger || console;
+    }
+
+    /**
+     * Adds a new task to the queue, as a member of the group.
+     * @see {@link SequentialTaskQueue.push}
+     */
+    push<F extends Function>(task: F & UntypedFunction<F>, options?: TaskOptions): CancellablePromiseLike<any>;
+    push<F extends TaskFunction>(task: F, options?: TaskOptions<TaskArgs<F>>): CancellablePromiseLike<TaskResult<F>>;
+    push(task: Function, options?: TaskOptions): CancellablePromiseLike<any> {
+        var promise = this.queue.push(task, options);
+        this.promises.push(promise);
+        var done = () => {
+            this.completed++;
+            this.emit("progress", this.progress);
+        };
+        promise.then(done, done);
+        return promise;
+    }
+
+    /**
+     * Waits for the tasks pushed to the group so far.
+     * @param {TaskGroupWaitOptions} options - Options for waiting.
+     * @returns {Promise} A promise that is resolved with the results of the tasks, in the order they were pushed,
+     * or rejected as soon as one of the tasks fails or is cancelled. When {@link TaskGroupWaitOptions.settled} is `true`,
+     * the promise waits for every task, and it is resolved with their outcomes.
+     */
+    wait(options?: TaskGroupWaitOptions): PromiseLike<any[]> {
+        if (options && options.settled)
+            return Promise.all(this.promises.map(promise => promise.then(
+                value => <SettledResult>{ status: "fulfilled", value: value },
+                reason => <SettledResult>{ status: "rejected", reason: reason })));
+        return Promise.all(this.promises);
+    }
+
+    /**
+     * Cancels the tasks of the group that haven't finished yet. Other tasks in the queue are not affected.
+     * @param reason - The reason of the cancellation. Default is {@link cancellationTokenReasons.cancel}.
+     * @returns {Promise} A promise that is fulfilled when all tasks of the group have finished.
+     */
+    cancel(reason?: any): PromiseLike<any> {
+        this.promises.forEach(promise => promise.cancel(reason === undefined ? cancellationTokenReasons.cancel : reason));
+        return this.wait({ settled: true });
+    }
+}
+
 interface TaskEntry {
+    id: any;
+    name?: string;
+    key?: any;
+    status: TaskStatus;
     args: any[];
     callback: Function;
     timeout?: number;
+    priority: number;
+    sequence: number;
+    heapIndex?: number;
+    enqueuedAt: number;
+    runAt?: number;
+    startedAt?: number;
+    finishedAt?: number;
+    retry?: RetryOptions;
+    dependsOn?: any[];
+    pendingDependencies?: number;
+    overflow?: OverflowStrategy;
+    attempt: number;
     timeoutHandle?: any;
+    retryHandle?: any;
+    signal?: AbortSignalLike;
+    onAbort?: () => void;
+    abortController?: any;
+    cooperativeCancellation?: boolean | number;
+    inProgress?: boolean;
+    cancelling?: boolean;
+    graceHandle?: any;
+    cancelCallbacks?: ((reason: any) => void)[];
+    cancellationError?: TaskCancelledError;
     cancellationToken: CancellationToken;
+    promise?: CancellablePromiseLike<any>;
+    unblock?: () => void;
     result?: any;
     resolve: (value: any | PromiseLike<any>) => void;
     reject: (reason?: any) => void;
 }
 
+interface PendingCall {
+    task: TaskFunction;
+    options: TaskOptions;
+    args?: any[];
+    handle?: any;
+    release: () => void;
+    promise: PromiseLike<any>;
+    resolve: (value: any | PromiseLike<any>) => void;
+    reject: (reason?: any) => void;
+}
+
+/**
+ * Binary heap of task entries. By default, entries with higher priority come first, entries with equal priority
+ * are ordered by their sequence number, which keeps the queue FIFO within the same priority.
+ */
+class TaskHeap {
+    private items: TaskEntry[] = [];
+
+    constructor(private compare: (a: TaskEntry, b: TaskEntry) => number = compareEntries) {
+    }
+
+    get length() {
+        return this.items.length;
+    }
+
+    push(entry: TaskEntry) {
+        this.items.push(entry);
+        this.siftUp(this.items.length - 1);
+    }
+
+    shift(): TaskEntry {
+        var items = this.items;
+        if (!items.length)
+            return undefined;
+        var first = items[0];
+        this.removeAt(0);
+        return first;
+    }
+
+    /** Removes an entry from the heap. Returns `false` if the entry was not in the heap. */
+    remove(entry: TaskEntry): boolean {
+        var i = entry.heapIndex;
+        if (i === undefined || this.items[i] !== entry)
+            return false;
+        this.removeAt(i);
+        return true;
+    }
+
+    /** Removes all entries from the heap, and returns them in order. */
+    clear(): TaskEntry[] {
+        var items = this.items.splice(0);
+        items.forEach(entry => entry.heapIndex = undefined);
+        return items.sort(this.compare);
+    }
+
+    find(predicate: (entry: TaskEntry) => boolean): TaskEntry {
+        return this.items.find(predicate);
+    }
+
+    /** Returns the first entry, without removing it. */
+    peek(): TaskEntry {
+        return this.items[0];
+    }
+
+    /** Returns the entry that was pushed first, regardless of its priority. */
+    oldest(): TaskEntry {
+        var result: TaskEntry;
+        this.items.forEach(entry => {
+            if (!result || entry.sequence < result.sequence)
+                result = entry;
+        });
+        return result;
+    }
+
+    /** Returns the entries in order, without removing them. */
+    toArray(): TaskEntry[] {
+        return this.items.slice().sort(this.compare);
+    }
+
+    private removeAt(i: number) {
+        var items = this.items;
+        items[i].heapIndex = undefined;
+        var last = items.pop();
+        if (i < items.length) {
+            items[i] = last;
+            this.siftDown(i);
+            this.siftUp(last.heapIndex);
+        }
+    }
+
+    private siftUp(i: number) {
+        var items = this.items;
+        var entry = items[i];
+        while (i > 0) {
+            var parent = (i - 1) >> 1;
+            if (this.compare(entry, items[parent]) >= 0)
+                break;
+            items[i] = items[parent];
+            items[i].heapIndex = i;
+            i = parent;
+        }
+        items[i] = entry;
+        entry.heapIndex = i;
+    }
+
+    private siftDown(i: number) {
+        var items = this.items;
+        var entry = items[i];
+        var length = items.length;
+        while (true) {
+            var child = 2 * i + 1;
+            if (child >= length)
+                break;
+            if (child + 1 < length && this.compare(items[child + 1], items[child]) < 0)
+                child++;
+            if (this.compare(items[child], entry) >= 0)
+                break;
+            items[i] = items[child];
+            items[i].heapIndex = i;
+            i = child;
+        }
+        items[i] = entry;
+        entry.heapIndex = i;
+    }
+}
+
+function getTaskInfo(entry: TaskEntry): TaskInfo {
+    return {
+        id: entry.id,
+        name: entry.name,
+        key: entry.key,
+        status: entry.status,
+        priority: entry.priority,
+        timeout: entry.timeout,
+        enqueuedAt: entry.enqueuedAt,
+        runAt: entry.runAt,
+        startedAt: entry.startedAt,
+        finishedAt: entry.finishedAt,
+        attempts: entry.attempt
+    };
+}
+
+function getArgs(options: TaskOptions): any[] {
+    return options && options.args ? (Array.isArray(options.args) ? options.args.slice() : [options.args]) : [];
+}
+
+function getRetryOptions(options: TaskOptions): RetryOptions {
+    return options && options.retry ? (typeof options.retry === "number" ? { attempts: options.retry } : options.retry) : undefined;
+}
+
+function getRunTime(options: TaskOptions, now: number): number {
+    if (options && options.runAt !== undefined)
+        return options.runAt instanceof Date ? options.runAt.getTime() : options.runAt;
+    if (options && options.delay > 0)
+        return now + options.delay;
+    return undefined;
+}
+
+function compareEntries(a: TaskEntry, b: TaskEntry) {
+    return (b.priority - a.priority) || (a.sequence - b.sequence);
+}
+
+function compareRunTimes(a: TaskEntry, b: TaskEntry) {
+    return (a.runAt - b.runAt) || compareEntries(a, b);
+}
+
+function getRetryDelay(retry: RetryOptions, attempt: number) {
+    var delay = retry.delay !== undefined ? retry.delay : 100;
+    if (retry.backoff !== "fixed")
+        delay *= Math.pow(2, attempt - 1);
+    if (retry.maxDelay !== undefined)
+        delay = Math.min(delay, retry.maxDelay);
+    if (retry.jitter)
+        delay -= delay * retry.jitter * Math.random();
+    return delay;
+}
+
+declare var AbortController: any;
+declare var DOMException: any;
+
+var settledTaskHistory = 1000;
+
+function getAbortSignal(task: TaskEntry): AbortSignalLike {
+    if (!task.abortController) {
+        if (typeof AbortController !== "function")
+            return undefined;
+        task.abortController = new AbortController();
+        if (task.cancellationToken.cancelled)
+            task.abortController.abort(getAbortReason(task.cancellationToken.reason));
+    }
+    return task.abortController.signal;
+}
+
+function getAbortReason(reason: any) {
+    switch (reason) {
+        case cancellationTokenReasons.cancel:
+            return createDOMException("The task has been cancelled", "AbortError");
+        case cancellationTokenReasons.timeout:
+            return createDOMException("The task has timed out", "TimeoutError");
+        case cancellationTokenReasons.overflow:
+            return createDOMException("The task has been cancelled because the queue is full", "AbortError");
+        case cancellationTokenReasons.dependency:
+            return createDOMException("The task has been cancelled because a dependency has failed", "AbortError");
+    }
+    return reason;
+}
+
+function isStandardReason(reason: any) {
+    return reason !== undefined && Object.keys(cancellationTokenReasons).some(key => cancellationTokenReasons[key] === reason);
+}
+
+function getCancellationMessage(queueName: string, taskLabel: string, elapsed: number, reason: any) {
+    var message = `${queueName}: ${taskLabel !== undefined ? `Task '${taskLabel}'` : "The task"} `;
+    switch (reason) {
+        case cancellationTokenReasons.timeout:
+            message += "has timed out";
+            break;
+        case cancellationTokenReasons.overflow:
+            message += "has been cancelled because the queue is full";
+            break;
+        case cancellationTokenReasons.dependency:
+            message += "has been cancelled because a dependency has failed";
+            break;
+        default:
+            message += "has been cancelled";
+    }
+    return elapsed !== undefined ? `${message} after ${elapsed} ms` : message;
+}
+
+function createDOMException(message: string, name: string) {
+    if (typeof DOMException === "function")
+        return new DOMException(message, name);
+    var error = new Error(message);
+    error.name = name;
+    return error;
+}
+
 function noop() {
 }
 
@@ -0,0 +1,181 @@
+﻿import * as stream from "stream";
+import { SequentialTaskQueue, TaskOptions, TaskFunction } from "./sequential-task-queue";
+
+/**
+ * Object used for passing options to {@link pushAll}.
+ */
+export interface PushAllOptions {
+    /**
+     * Maximum number of pushed tasks that haven't finished yet. Reading from the source is paused
+     * while this number is reached. Default is 16.
+     */
+    highWaterMark?: number;
+    /**
+     * Options for the pushed tasks. The `args` option is ignored, the item is passed as the first argument of the task.
+     */
+    taskOptions?: TaskOptions;
+}
+
+/**
+ * Minimal interface of a WHATWG `WritableStream`, see {@link createWritableStream}.
+ */
+export interface WritableStreamLike<T> {
+    readonly locked: boolean;
+    abort(reason?: any): PromiseLike<void>;
+    getWriter(): any;
+}
+
+declare var WritableStream: any;
+
+var asyncIteratorSymbol: symbol = (<any>Symbol).asyncIterator || Symbol.for("Symbol.asyncIterator");
+
+/**
+ * Reads the items of an `AsyncIterable` or a Node.js `Readable` stream, and pushes a task for each of them.
+ * The item is passed to the task as its first argument, followed by the {@link CancellationToken}.
+ * @param {SequentialTaskQueue} queue - The queue to push the tasks to.
+ * @param source - An `AsyncIterable` or a `Readable` stream in object mode.
+ * @param {Function} task - The function to call with the items.
+ * @param {PushAllOptions} options - Options for reading the source and for the pushed tasks.
+ * @returns {Promise} A promise that is resolved with the number of items when all of the tasks have finished, or rejected
+ * if the source fails or a task fails. Reading the source stops when the promise is rejected.
+ */
+export function pushAll<T>(queue: SequentialTaskQueue, source: AsyncIterable<T> | NodeJS.ReadableStream, task: (item: T, ...args: any[]) => any, options?: PushAllOptions): Promise<number> {
+    if (!options)
+        options = {};
+    var highWaterMark = options.highWaterMark > 0 ? options.highWaterMark : 16;
+    var taskOptions = options.taskOptions;
+    return new Promise<number>((resolve, reject) => {
+        var count = 0;
+        var pending = 0;
+        var ended = false;
+        var failed = false;
+        var paused = false;
+        var resume: () => void;
+        var stop: () => void;
+        var fail = (reason: any) => {
+            if (failed)
+                return;
+            failed = true;
+            stop();
+            reject(reason);
+        };
+        var push = (item: T) => {
+            var promise: PromiseLike<any>;
+            try {
+                promise = queue.push(<TaskFunction>task, Object.assign({}, taskOptions, { args: [item] }));
+            } catch (e) {
+                // e.g. the queue has been closed, or it is full
+                return fail(e);
+            }
+            count++;
+            pending++;
+            promise.then(() => {
+                pending--;
+                if (failed)
+                    return;
+                if (ended && !pending)
+                    resolve(count);
+                else if (paused && pending < highWaterMark) {
+                    paused = false;
+                    resume();
+                }
+            }, fail);
+        };
+        var end = () => {
+            ended = true;
+            if (!pending && !failed)
+                resolve(count);
+        };
+        try {
+            if (typeof source[asyncIteratorSymbol] === "function" && !isReadable(source)) {
+                var iterator: AsyncIterator<T> = source[asyncIteratorSymbol]();
+                var read = () => {
+                    iterator.next().then(result => {
+                        if (failed)
+                            return;
+                        if (result.done)
+                            return end();
+                        push(result.value);
+                        if (failed)
+                            return;
+                        if (pending >= highWaterMark)
+                            paused = true;
+                        else
+                            read();
+                    }, fail);
+                };
+                resume = read;
+                stop = () => {
+                    if (typeof iterator.return === "function")
+                        iterator.return();
+                };
+                read();
+            } else {
+                var readable = <NodeJS.ReadableStream>source;
+                var onData = (item: T) => {
+                    push(item);
+                    if (!failed && pending >= highWaterMark) {
+                        paused = true;
+                        readable.pause();
+                    }
+                };
+                resume = () => readable.resume();
+                stop = () => {
+                    readable.removeListener("data", onData);
+                    readable.removeListener("end", end);
+                    readable.removeListener("error", fail);
+                    readable.pause();
+                };
+                readable.on("data", onData);
+                readable.on("end", end);
+                readable.on("error", fail);
+            }
+        } catch (e) {
+            failed = true;
+            reject(e);
+        }
+    });
+}
+
+/**
+ * Creates a Node.js `Writable` stream in object mode that pushes a task for every chunk written to it.
+ * The chunk is passed to the task as its first argument, followed by the {@link CancellationToken}.
+ * A write is completed when its task has finished, and the stream emits an `error` event if a task fails.
+ * @param {SequentialTaskQueue} queue - The queue to push the tasks to.
+ * @param {Function} task - The function to call with the chunks.
+ * @param {TaskOptions} taskOptions - Options for the pushed tasks. The `args` option is ignored.
+ */
+export function createWritable<T>(queue: SequentialTaskQueue, task: (chunk: T, ...args: any[]) => any, taskOptions?: TaskOptions): stream.Writable {
+    return new stream.Writable({
+        objectMode: true,
+        write: (chunk: any, encoding: string, callback: (err?: any) => void) => {
+            try {
+                queue.push(<TaskFunction>task, Object.assign({}, taskOptions, { args: [chunk] }))
+                    .then(() => callback(), reason => callback(reason === undefined ? new Error("Task failed") : reason));
+            } catch (e) {
+                callback(e);
+            }
+        }
+    });
+}
+
+/**
+ * Creates a WHATWG `WritableStream` that pushes a task for every chunk written to it.
+ * The chunk is passed to the task as its first argument, followed by the {@link CancellationToken}.
+ * A write is completed when its task has finished, and the stream is errored if a task fails.
+ * Requires a global `WritableStream` constructor.
+ * @param {SequentialTaskQueue} queue - The queue to push the tasks to.
+ * @param {Function} task - The function to call with the chunks.
+ * @param {TaskOptions} taskOptions - Options for the pushed tasks. The `args` option is ignored.
+ */
+export function createWritableStream<T>(queue: SequentialTaskQueue, task: (chunk: T, ...args: any[]) => any, taskOptions?: TaskOptions): WritableStreamLike<T> {
+    if (typeof WritableStream !== "function")
+        throw new Error("WritableStream is not supported in this environment");
+    return new WritableStream({
+        write: (chunk: T) => queue.push(<TaskFunction>task, Object.assign({}, taskOptions, { args: [chunk] }))
+    });
+}
+
+function isReadable(source: any): source is NodeJS.ReadableStream {
+    return typeof source.pipe === "function" && typeof source.on === "function";
+}
@@ -0,0 +1,19 @@
+﻿import { Scheduler } from "./sequential-task-queue";
+
+/**
+ * Calls a function after the given number of milliseconds, using {@link Scheduler.setTimeout} if the scheduler implements it.
+ * @returns A handle that can be passed to {@link clearTimer}.
+ */
+export function setTimer(scheduler: Scheduler, callback: () => void, delay: number): any {
+    return scheduler.setTimeout ? scheduler.setTimeout(callback, delay) : setTimeout(callback, delay);
+}
+
+/**
+ * Cancels a call scheduled with {@link setTimer}.
+ */
+export function clearTimer(scheduler: Scheduler, handle: any) {
+    if (scheduler.clearTimeout)
+        scheduler.clearTimeout(handle);
+    else
+        clearTimeout(handle);
+}
@@ -0,0 +1,132 @@
+﻿import { Scheduler } from "./sequential-task-queue";
+
+/**
+ * A {@link Scheduler} with a virtual clock, for testing code that uses task queues without depending on real time.
+ * The clock starts at the given time, and only moves when {@link VirtualScheduler.advance}, {@link VirtualScheduler.step}
+ * or {@link VirtualScheduler.runAll} is called. Scheduled callbacks are run synchronously by these methods.
+ *
+ * Note that the queue still uses promises for settling tasks, so the continuations of a task that returns a promise
+ * are run asynchronously, even with a virtual clock.
+ */
+export class VirtualScheduler implements Scheduler {
+
+    private time: number;
+    private timers: VirtualTimer[] = [];
+
+    /** Number of callbacks waiting to be run, including the ones that are not due yet. */
+    get pendingCount() {
+        return this.timers.length;
+    }
+
+    /**
+     * Creates a new instance of {@link VirtualScheduler}
+     * @param {number} startTime - The initial time of the virtual clock, in milliseconds. Default is 0.
+     */
+    constructor(startTime?: number) {
+        this.time = startTime || 0;
+    }
+
+    /** Returns the current time of the virtual clock. */
+    now(): number {
+        return this.time;
+    }
+
+    /** Schedules a callback to run at the current time, see {@link VirtualScheduler.flush}. */
+    schedule(callback: Function) {
+        this.addTimer(callback, 0);
+    }
+
+    /** Schedules a callback to run when the virtual clock has advanced by `delay` milliseconds. */
+    setTimeout(callback: () => void, delay: number): any {
+        return this.addTimer(callback, delay);
+    }
+
+    /** Cancels a callback scheduled with {@link VirtualScheduler.setTimeout}. */
+    clearTimeout(handle: any) {
+        var index = this.timers.indexOf(handle);
+        if (index !== -1)
+            this.timers.splice(index, 1);
+    }
+
+    /**
+     * Runs the callbacks that are due at the current time, including the ones scheduled by these callbacks, without moving the clock.
+     * @returns {number} The number of callbacks run.
+     */
+    flush(): number {
+        return this.runUntil(this.time);
+    }
+
+    /**
+     * Moves the clock forward, running the callbacks that become due in the order of their due times.
+     * The clock is set to the due time of each callback before running it.
+     * @param {number} ms - Number of milliseconds to advance the clock with.
+     * @returns {number} The number of callbacks run.
+     */
+    advance(ms: number): number {
+        var end = this.time + ms;
+        var count = this.runUntil(end);
+        this.time = end;
+        return count;
+    }
+
+    /**
+     * Moves the clock to the due time of the next callback, and runs the callbacks that are due at that time.
+     * @returns {boolean} `false` if there were no callbacks to run.
+     */
+    step(): boolean {
+        if (!this.timers.length)
+            return false;
+        this.runUntil(Math.max(this.time, this.timers[0].dueAt));
+        return true;
+    }
+
+    /**
+     * Runs callbacks, moving the clock forward as needed, until no callbacks are left.
+     * Throws an exception if the callbacks keep scheduling new ones (e.g. a recurring task is running).
+     * @param {number} limit - Maximum number of callbacks to run. Default is 10000.
+     * @returns {number} The number of callbacks run.
+     */
+    runAll(limit: number = 10000): number {
+        var count = 0;
+        while (this.timers.length) {
+            if (count >= limit)
+                throw new Error(`VirtualScheduler: callbacks are still pending after running ${limit} callbacks`);
+            this.runNext();
+            count++;
+        }
+        return count;
+    }
+
+    private runUntil(time: number): number {
+        var count = 0;
+        while (this.timers.length && this.timers[0].dueAt <= time) {
+            this.runNext();
+            count++;
+        }
+        return count;
+    }
+
+    private runNext() {
+        var timer = this.timers.shift();
+        this.time = Math.max(this.time, timer.dueAt);
+        timer.callback();
+    }
+
+    private addTimer(callback: Function, delay: number): VirtualTimer {
+        var timer: VirtualTimer = {
+            callback: callback,
+            dueAt: this.time + Math.max(0, delay || 0)
+        };
+        // keep the timers ordered by due time, timers with the same due time are run in the order they were added
+        var i = this.timers.length;
+        while (i > 0 && this.timers[i - 1].dueAt > timer.dueAt)
+            i--;
+        this.timers.splice(i, 0, timer);
+        return timer;
+    }
+}
+
+interface VirtualTimer {
+    callback: Function;
+    dueAt: number;
+}
@@ -0,0 +1,111 @@
+﻿import * as assert from "assert";
+import { cancellationTokenReasons } from "../src/sequential-task-queue";
+import { BatchTaskQueue } from "../src/batch-task-queue";
+import { VirtualScheduler } from "../src/virtual-scheduler";
+import * as sinon from "sinon";
+
+describe("BatchTaskQueue", () => {
+
+    function double(items: number[]) {
+        return items.map(n => n * 2);
+    }
+
+    it("should process items added synchronously in one batch", () => {
+        var spy = sinon.spy(double);
+        var queue = new BatchTaskQueue(spy);
+        return Promise.all([queue.add(1), queue.add(2), queue.add(3)]).then(results => {
+            assert.deepEqual(results, [2, 4, 6]);
+            assert(spy.calledOnce);
+            assert.deepEqual(spy.args[0][0], [1, 2, 3]);
+        });
+    });
+
+    it("should limit the size of the batches", () => {
+        var spy = sinon.spy(double);
+        var queue = new BatchTaskQueue(spy, { maxBatchSize: 2 });
+        return Promise.all([1, 2, 3, 4, 5].map(n => queue.add(n))).then(results => {
+            assert.deepEqual(results, [2, 4, 6, 8, 10]);
+            assert.deepEqual(spy.args.map(args => args[0]), [[1, 2], [3, 4], [5]]);
+        });
+    });
+
+    it("should wait for more items up to maxWait", () => {
+        var scheduler = new VirtualScheduler();
+        var spy = sinon.spy(double);
+        var queue = new BatchTaskQueue(spy, { maxWait: 100, scheduler: scheduler });
+        queue.add(1);
+        scheduler.advance(50);
+        queue.add(2);
+        scheduler.advance(49);
+        assert(!spy.called);
+        scheduler.advance(1);
+        assert.deepEqual(spy.args.map(args => args[0]), [[1, 2]]);
+    });
+
+    it("should run the batches sequentially", () => {
+        var res = [];
+        var queue = new BatchTaskQueue((items: string[]) => new Promise<string[]>(resolve => setTimeout(() => {
+            res.push(items.join());
+            resolve(items);
+        }, 10)), { maxBatchSize: 1 });
+        return Promise.all(["a", "b", "c"].map(s => queue.add(s))).then(() => {
+            assert.deepEqual(res, ["a", "b", "c"]);
+        });
+    });
+
+    it("should route errors to the items", () => {
+        var queue = new BatchTaskQueue((items: number[]) => items.map(n => n < 0 ? new Error("negative") : n));
+        var results = [1, -1, 2].map(n => queue.add(n).then(result => result, err => err.message));
+        return Promise.all(results).then(results => {
+            assert.deepEqual(results, [1, "negative", 2]);
+        });
+    });
+
+    it("should reject all items if the handler fails", () => {
+        var queue = new BatchTaskQueue<number>(() => { throw "fail"; });
+        var results = [1, 2].map(n => queue.add(n).then(() => assert.ok(false), reason => reason));
+        return Promise.all(results).then(results => {
+            assert.deepEqual(results, ["fail", "fail"]);
+        });
+    });
+
+    it("should reject all items if the handler returns the wrong number of results", () => {
+        var queue = new BatchTaskQueue((items: number[]) => [1]);
+        var results = [1, 2].map(n => queue.add(n).then(() => assert.ok(false), err => err));
+        return Promise.all(results).then(results => {
+            assert(results.every(err => err instanceof Error));
+        });
+    });
+
+    it("should reject the items of a batch that can't be pushed to the queue", () => {
+        var queue = new BatchTaskQueue(double, { maxWait: 1000, maxSize: 1, overflow: "throw" });
+        var p1 = queue.add(1);
+        queue.flush();
+        var p2 = queue.add(2);
+        queue.flush();
+        return Promise.all([p1, p2.then(() => assert.ok(false), err => err.message)]).then(results => {
+            assert.equal(results[0], 2);
+            assert(/full/.test(results[1]));
+        });
+    });
+
+    it("should reject the items of the current batch when cancelled", () => {
+        var spy = sinon.spy(double);
+        var queue = new BatchTaskQueue(spy);
+        var p = queue.add(1);
+        queue.cancel();
+        return p.then(() => assert.ok(false), reason => {
+            assert.equal(reason.reason, cancellationTokenReasons.cancel);
+            assert(!spy.called);
+        });
+    });
+
+    it("should process the current batch when closed", () => {
+        var queue = new BatchTaskQueue(double, { maxWait: 1000 });
+        var p = queue.add(1);
+        return queue.close().then(() => p).then(result => {
+            assert.equal(result, 2);
+            assert.throws(() => queue.add(2));
+        });
+    });
+});
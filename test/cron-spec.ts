@@ -0,0 +1,58 @@
+﻿import * as assert from "assert";
+import { CronExpression } from "../src/cron";
+
+describe("CronExpression", () => {
+
+    function next(expression: string, after: Date) {
+        return new CronExpression(expression).next(after);
+    }
+
+    it("should find the next minute", () => {
+        assert.deepEqual(next("* * * * *", new Date(2020, 0, 1, 10, 30, 15)), new Date(2020, 0, 1, 10, 31));
+    });
+
+    it("should support values, ranges, lists and steps", () => {
+        assert.deepEqual(next("30 9 * * *", new Date(2020, 0, 1, 10, 0)), new Date(2020, 0, 2, 9, 30));
+        assert.deepEqual(next("0 9-17 * * *", new Date(2020, 0, 1, 17, 0)), new Date(2020, 0, 2, 9, 0));
+        assert.deepEqual(next("0,20,40 * * * *", new Date(2020, 0, 1, 10, 25)), new Date(2020, 0, 1, 10, 40));
+        assert.deepEqual(next("*/15 * * * *", new Date(2020, 0, 1, 10, 46)), new Date(2020, 0, 1, 11, 0));
+        assert.deepEqual(next("0-30/10 * * * *", new Date(2020, 0, 1, 10, 31)), new Date(2020, 0, 1, 11, 0));
+    });
+
+    it("should support month and day names", () => {
+        // 2020-01-01 is a Wednesday
+        assert.deepEqual(next("0 0 * * MON", new Date(2020, 0, 1)), new Date(2020, 0, 6));
+        assert.deepEqual(next("0 0 1 mar-apr *", new Date(2020, 0, 1)), new Date(2020, 2, 1));
+        assert.deepEqual(next("0 0 * * 7", new Date(2020, 0, 1)), new Date(2020, 0, 5));
+    });
+
+    it("should match either the day of month or the day of week when both are restricted", () => {
+        assert.deepEqual(next("0 0 13 * 5", new Date(2020, 0, 1)), new Date(2020, 0, 3));
+        assert.deepEqual(next("0 0 13 * 5", new Date(2020, 0, 11)), new Date(2020, 0, 13));
+    });
+
+    it("should support macros", () => {
+        assert.deepEqual(next("@daily", new Date(2020, 0, 1, 10, 0)), new Date(2020, 0, 2));
+        assert.deepEqual(next("@yearly", new Date(2020, 0, 1, 10, 0)), new Date(2021, 0, 1));
+    });
+
+    it("should return undefined if the expression never matches", () => {
+        assert.equal(next("0 0 30 2 *", new Date(2020, 0, 1)), undefined);
+    });
+
+    it("should match a time", () => {
+        var cron = new CronExpression("*/5 8 * * 1-5");
+        assert(cron.matches(new Date(2020, 0, 1, 8, 15)));
+        assert(!cron.matches(new Date(2020, 0, 1, 8, 16)));
+        assert(!cron.matches(new Date(2020, 0, 4, 8, 15)));
+    });
+
+    it("should throw on invalid expressions", () => {
+        assert.throws(() => new CronExpression("* * * *"));
+        assert.throws(() => new CronExpression("60 * * * *"));
+        assert.throws(() => new CronExpression("* * 0 * *"));
+        assert.throws(() => new CronExpression("5-1 * * * *"));
+        assert.throws(() => new CronExpression("*/0 * * * *"));
+        assert.throws(() => new CronExpression("* * * foo *"));
+    });
+});
@@ -0,0 +1,16 @@
+﻿import { SequentialTaskQueue, CancellationToken, CancellablePromiseLike } from "../../src/sequential-task-queue";
+import { KeyedTaskQueue } from "../../src/keyed-task-queue";
+
+// Type-checked with `strict: true` by typings-spec, never run
+
+export function pushTypedTasks(queue: SequentialTaskQueue, keyed: KeyedTaskQueue) {
+    var p1: CancellablePromiseLike<string> = queue.push((s: string, ct: CancellationToken) => s, { args: "x" });
+    var p2: CancellablePromiseLike<number> = queue.push((n: number, s: string, ct: CancellationToken) => n, { args: [1, "a"] });
+    var p3: CancellablePromiseLike<string> = queue.push((s: string, x: any) => s, { args: ["a", 2] });
+    var p4: CancellablePromiseLike<number> = queue.push((ct: CancellationToken) => Promise.resolve(1));
+    var p5: CancellablePromiseLike<string> = queue.push((s: string, ct?: CancellationToken) => s, { args: ["x"] });
+    var task: Function = () => 1;
+    var p6: CancellablePromiseLike<any> = queue.push(task);
+    var p7: CancellablePromiseLike<string> = keyed.push("a", (s: string, ct: CancellationToken) => s, { args: "x" });
+    return [p1, p2, p3, p4, p5, p6, p7];
+}
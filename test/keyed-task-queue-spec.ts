@@ -0,0 +1,121 @@
+﻿import * as assert from "assert";
+import { cancellationTokenReasons } from "../src/sequential-task-queue";
+import { KeyedTaskQueue } from "../src/keyed-task-queue";
+import * as sinon from "sinon";
+
+describe("KeyedTaskQueue", () => {
+
+    function delay(ms: number) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    it("should run tasks with the same key sequentially", () => {
+        var queue = new KeyedTaskQueue();
+        var res = [];
+        queue.push("a", () => delay(30).then(() => res.push("a1")));
+        queue.push("a", () => delay(10).then(() => res.push("a2")));
+        return queue.wait().then(() => {
+            assert.deepEqual(res, ["a1", "a2"]);
+        });
+    });
+
+    it("should run tasks with different keys in parallel", () => {
+        var queue = new KeyedTaskQueue();
+        var res = [];
+        queue.push("a", () => delay(30).then(() => res.push("a1")));
+        queue.push("a", () => delay(10).then(() => res.push("a2")));
+        queue.push("b", () => delay(10).then(() => res.push("b1")));
+        return queue.wait().then(() => {
+            assert.deepEqual(res, ["b1", "a1", "a2"]);
+        });
+    });
+
+    it("should dispose partitions after they have drained", () => {
+        var queue = new KeyedTaskQueue();
+        queue.push("a", () => delay(10));
+        queue.push("b", () => delay(30));
+        assert.deepEqual(queue.keys(), ["a", "b"]);
+        return queue.wait("a").then(() => {
+            assert.deepEqual(queue.keys(), ["b"]);
+            return queue.wait();
+        }).then(() => {
+            assert.deepEqual(queue.keys(), []);
+        });
+    });
+
+    it("should dispose partitions emptied by cancelling their waiting tasks", () => {
+        var queue = new KeyedTaskQueue();
+        var p = queue.push("a", () => { });
+        p.cancel();
+        assert.deepEqual(queue.keys(), []);
+        return p.then(() => assert.ok(false), () => {
+            queue.push("b", () => delay(10));
+            var b = queue.push("b", () => { });
+            b.cancel();
+            assert.deepEqual(queue.keys(), ["b"]);
+            return queue.wait();
+        }).then(() => {
+            assert.deepEqual(queue.keys(), []);
+        });
+    });
+
+    it("should wait for a single key", () => {
+        var queue = new KeyedTaskQueue();
+        var spy = sinon.spy();
+        queue.push("a", () => delay(10).then(() => spy("a")));
+        queue.push("b", () => delay(50).then(() => spy("b")));
+        return queue.wait("a").then(() => {
+            assert.deepEqual(spy.args, [["a"]]);
+        });
+    });
+
+    it("should cancel a single key", () => {
+        var queue = new KeyedTaskQueue();
+        var a = queue.push("a", () => delay(20));
+        var b = queue.push("b", () => delay(20).then(() => "b"));
+        queue.cancel("a");
+        return Promise.all([a.then(() => "resolved", reason => reason.reason), b]).then(results => {
+            assert.deepEqual(results, [cancellationTokenReasons.cancel, "b"]);
+        });
+    });
+
+    it("should pass the options to the partitions", () => {
+        var queue = new KeyedTaskQueue({ cooperativeCancellation: true, maxSize: 1 });
+        var res = [];
+        var a = queue.push("a", token => new Promise((resolve, reject) => {
+            token.onCancelled(reason => delay(20).then(() => {
+                res.push("a1");
+                reject(reason);
+            }));
+        }));
+        return delay(10).then(() => {
+            queue.cancel("a");
+            queue.push("a", () => res.push("a2"));
+            assert.throws(() => queue.push("a", () => { }), /full/);
+            return queue.wait();
+        }).then(() => {
+            assert.deepEqual(res, ["a1", "a2"]);
+        });
+    });
+
+    it("should cancel all partitions", () => {
+        var queue = new KeyedTaskQueue();
+        var spy = sinon.spy();
+        queue.push("a", () => spy("a"));
+        queue.push("b", () => spy("b"));
+        return queue.cancel().then(() => {
+            assert(spy.notCalled);
+        });
+    });
+
+    it("should prevent adding more tasks when closed", () => {
+        var queue = new KeyedTaskQueue();
+        var spy = sinon.spy();
+        queue.push("a", () => spy("a"));
+        var p = queue.close();
+        assert.throws(() => queue.push("b", () => spy("b")));
+        return p.then(() => {
+            assert.deepEqual(spy.args, [["a"]]);
+        });
+    });
+});
@@ -0,0 +1,103 @@
+﻿import * as assert from "assert";
+import { SequentialTaskQueue } from "../src/sequential-task-queue";
+import { TaskQueueMetrics, formatPrometheus } from "../src/metrics";
+
+describe("TaskQueueMetrics", () => {
+
+    var time: number;
+    var scheduler = {
+        schedule: callback => setImmediate(callback),
+        now: () => time
+    };
+
+    beforeEach(() => {
+        time = 0;
+    });
+
+    function task(duration: number, fail?: boolean) {
+        return () => {
+            time += duration;
+            if (fail)
+                throw "fail";
+        };
+    }
+
+    it("should count tasks by outcome", () => {
+        var queue = new SequentialTaskQueue({ scheduler: scheduler });
+        var metrics = new TaskQueueMetrics(queue);
+        queue.push(task(10));
+        queue.push(task(10, true));
+        queue.push(task(10)).cancel();
+        return queue.wait().then(() => {
+            var s = metrics.snapshot();
+            assert.deepEqual([s.enqueued, s.started, s.succeeded, s.failed, s.cancelled], [3, 2, 1, 1, 1]);
+        });
+    });
+
+    it("should record wait and run times", () => {
+        var queue = new SequentialTaskQueue({ scheduler: scheduler });
+        var metrics = new TaskQueueMetrics(queue);
+        queue.push(task(10));
+        queue.push(task(20));
+        queue.push(task(30));
+        return queue.wait().then(() => {
+            var s = metrics.snapshot();
+            assert.deepEqual([s.waitTime.min, s.waitTime.max, s.waitTime.sum], [0, 30, 40]);
+            assert.deepEqual([s.runTime.min, s.runTime.max, s.runTime.mean, s.runTime.p50], [10, 30, 20, 20]);
+            assert.deepEqual(s.runTime.buckets.filter(b => b.le <= 25), [{ le: 5, count: 0 }, { le: 10, count: 1 }, { le: 25, count: 2 }]);
+            assert.equal(s.throughput, 50);
+        });
+    });
+
+    it("should track the queue depth", () => {
+        var queue = new SequentialTaskQueue({ scheduler: scheduler });
+        var metrics = new TaskQueueMetrics(queue);
+        queue.push(task(10));
+        queue.push(task(10));
+        queue.push(task(10));
+        return queue.wait().then(() => {
+            var s = metrics.snapshot();
+            assert.equal(s.depth, 0);
+            assert.equal(s.maxDepth, 3);
+            assert.deepEqual(s.depthHistory.map(d => d.depth), [1, 2, 3, 2, 1, 0]);
+        });
+    });
+
+    it("should stop collecting metrics when detached", () => {
+        var queue = new SequentialTaskQueue({ scheduler: scheduler });
+        var metrics = new TaskQueueMetrics(queue);
+        queue.push(task(10));
+        return queue.wait().then(() => {
+            metrics.detach();
+            queue.push(task(10));
+            return queue.wait();
+        }).then(() => {
+            assert.equal(metrics.snapshot().succeeded, 1);
+        });
+    });
+
+    it("should export metrics in Prometheus format", () => {
+        var queue = new SequentialTaskQueue({ name: "jobs", scheduler: scheduler });
+        var metrics = new TaskQueueMetrics(queue, { buckets: [10, 100] });
+        queue.push(task(50));
+        queue.push(task(10, true));
+        return queue.wait().then(() => {
+            var lines = metrics.toPrometheus().split("\n");
+            assert(lines.indexOf("# TYPE task_queue_tasks_total counter") !== -1);
+            assert(lines.indexOf(`task_queue_tasks_total{queue="jobs",outcome="succeeded"} 1`) !== -1);
+            assert(lines.indexOf(`task_queue_tasks_total{queue="jobs",outcome="failed"} 1`) !== -1);
+            assert(lines.indexOf(`task_queue_run_seconds_bucket{queue="jobs",le="0.01"} 1`) !== -1);
+            assert(lines.indexOf(`task_queue_run_seconds_bucket{queue="jobs",le="+Inf"} 2`) !== -1);
+            assert(lines.indexOf(`task_queue_run_seconds_sum{queue="jobs"} 0.06`) !== -1);
+        });
+    });
+
+    it("should export multiple queues without repeating the metric descriptions", () => {
+        var m1 = new TaskQueueMetrics(new SequentialTaskQueue({ name: "a" }));
+        var m2 = new TaskQueueMetrics(new SequentialTaskQueue({ name: "b\"" }));
+        var text = formatPrometheus([m1, m2], "app");
+        assert.equal(text.split("# TYPE app_depth gauge").length, 2);
+        assert(text.indexOf(`app_depth{queue="a"} 0`) !== -1);
+        assert(text.indexOf(`app_depth{queue="b\\""} 0`) !== -1);
+    });
+});
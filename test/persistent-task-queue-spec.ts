@@ -0,0 +1,160 @@
+﻿import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PersistentTaskQueue, MemoryTaskStorage, JsonFileTaskStorage, TaskStorage, StoredTask } from "../src/persistent-task-queue";
+import * as sinon from "sinon";
+
+describe("PersistentTaskQueue", () => {
+
+    it("should run registered handlers with the stored arguments", () => {
+        var queue = new PersistentTaskQueue();
+        var spy = sinon.spy((a: number, b: number) => a + b);
+        queue.register("add", spy);
+        return queue.push("add", { args: [1, 2] }).then(result => {
+            assert.equal(result, 3);
+            assert.deepEqual(spy.args[0].slice(0, 2), [1, 2]);
+        });
+    });
+
+    it("should store the task before running it, and remove it when completed", () => {
+        var storage = new MemoryTaskStorage();
+        var queue = new PersistentTaskQueue({ storage: storage });
+        var stored: StoredTask[];
+        queue.register("check", () => storage.load().then(tasks => stored = tasks));
+        return queue.push("check", { args: "foo", name: "check foo" }).then(() => {
+            assert.equal(stored.length, 1);
+            assert.equal(stored[0].handler, "check");
+            assert.deepEqual(stored[0].args, ["foo"]);
+            assert.equal(stored[0].name, "check foo");
+            return queue.wait();
+        }).then(() => storage.load()).then(tasks => {
+            assert.deepEqual(tasks, []);
+        });
+    });
+
+    it("should remove failed tasks from the storage", () => {
+        var storage = new MemoryTaskStorage();
+        var queue = new PersistentTaskQueue({ storage: storage });
+        queue.register("fail", () => { throw "fail"; });
+        return queue.push("fail").then(() => assert.ok(false), reason => {
+            assert.equal(reason, "fail");
+            return queue.wait();
+        }).then(() => storage.load()).then(tasks => {
+            assert.deepEqual(tasks, []);
+        });
+    });
+
+    it("should restore unfinished tasks in order", () => {
+        var storage = new MemoryTaskStorage();
+        var crashed = new PersistentTaskQueue({ storage: storage });
+        crashed.register("log", () => new Promise(() => { }));
+        crashed.push("log", { args: 1 });
+        crashed.push("log", { args: 2 });
+        var res = [];
+        var queue = new PersistentTaskQueue({ storage: storage });
+        queue.register("log", (n: number) => { res.push(n); });
+        return queue.restore().then(count => {
+            assert.equal(count, 2);
+            return queue.wait();
+        }).then(() => {
+            assert.deepEqual(res, [1, 2]);
+            return storage.load();
+        }).then(tasks => {
+            assert.deepEqual(tasks, []);
+        });
+    });
+
+    it("should not restore tasks with unknown handlers", () => {
+        var storage = new MemoryTaskStorage();
+        storage.add({ id: "1", handler: "unknown", args: [] });
+        var queue = new PersistentTaskQueue({ storage: storage });
+        return queue.restore().then(() => assert.ok(false), err => {
+            assert(err instanceof Error);
+            assert.equal(queue.queue.size, 0);
+        });
+    });
+
+    it("should fail the task if it couldn't be stored", () => {
+        var storage: TaskStorage = {
+            load: () => Promise.resolve([]),
+            add: () => Promise.reject("disk full"),
+            remove: () => Promise.resolve()
+        };
+        var queue = new PersistentTaskQueue({ storage: storage });
+        var spy = sinon.spy();
+        queue.register("task", spy);
+        return queue.push("task").then(() => assert.ok(false), reason => {
+            assert.equal(reason, "disk full");
+            assert(!spy.called);
+        });
+    });
+
+    it("should fail the task without waiting for its turn if it couldn't be stored", () => {
+        var storage: TaskStorage = {
+            load: () => Promise.resolve([]),
+            add: (task: StoredTask) => task.handler === "fail" ? Promise.reject("disk full") : Promise.resolve(),
+            remove: () => Promise.resolve()
+        };
+        var queue = new PersistentTaskQueue({ storage: storage });
+        var blocked = true;
+        queue.register("block", () => new Promise(resolve => setTimeout(resolve, 50)).then(() => blocked = false));
+        queue.register("fail", () => { });
+        queue.push("block");
+        return queue.push("fail").then(() => assert.ok(false), reason => {
+            assert.equal(reason, "disk full");
+            assert(blocked);
+        });
+    });
+
+    it("should throw on unknown handlers and closed queue", () => {
+        var queue = new PersistentTaskQueue();
+        queue.register("task", () => { });
+        assert.throws(() => queue.push("unknown"));
+        queue.close();
+        assert.throws(() => queue.push("task"));
+    });
+});
+
+describe("JsonFileTaskStorage", () => {
+
+    var file: string;
+
+    beforeEach(() => {
+        file = path.join(os.tmpdir(), `sequential-task-queue-${process.pid}-${Date.now()}.json`);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(file))
+            fs.unlinkSync(file);
+    });
+
+    it("should persist tasks in a file", () => {
+        var storage = new JsonFileTaskStorage(file);
+        return storage.load().then(tasks => {
+            assert.deepEqual(tasks, []);
+            return Promise.all([
+                storage.add({ id: "1", handler: "a", args: [1] }),
+                storage.add({ id: "2", handler: "b", args: [2] }),
+                storage.remove("1")
+            ]);
+        }).then(() => {
+            assert.deepEqual(JSON.parse(fs.readFileSync(file, "utf8")), [{ id: "2", handler: "b", args: [2] }]);
+            return new JsonFileTaskStorage(file).load();
+        }).then(tasks => {
+            assert.deepEqual(tasks, [{ id: "2", handler: "b", args: [2] }]);
+        });
+    });
+
+    it("should reject if the file is corrupted, and read it again later", () => {
+        fs.writeFileSync(file, "[{");
+        var storage = new JsonFileTaskStorage(file);
+        return storage.load().then(() => assert.ok(false), err => {
+            assert(err instanceof SyntaxError);
+            fs.writeFileSync(file, "[]");
+            return storage.load();
+        }).then(tasks => {
+            assert.deepEqual(tasks, []);
+        });
+    });
+});
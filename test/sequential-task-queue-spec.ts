@@ -1,7 +1,9 @@
 ﻿import * as assert from "assert";
-import { SequentialTaskQueue, CancellationToken, cancellationTokenReasons } from "../src/sequential-task-queue";
+import { SequentialTaskQueue, ConcurrentTaskQueue, CancellationToken, CancellablePromiseLike, TaskInfo, OverflowStrategy, cancellationTokenReasons, TaskCancelledError, TaskTimeoutError, QueueClosedError } from "../src/sequential-task-queue";
 import * as sinon from "sinon";
 
+declare var AbortController: any;
+
 process.on('unhandledRejection', (err, p) => {
   console.log('Suppressed unhandled rejection');
 });
@@ -124,6 +126,43 @@ describe("SequentialTaskQueue", () => {
             return p.then(result => assert.ok(false), (reason) => assert.equal(reason, "fail"));
         });
 
+        it("should reject with TaskCancelledError when the queue is cancelled", () => {
+            var queue = new SequentialTaskQueue({ name: "q" });
+            var p = queue.push(() => new Promise(resolve => setTimeout(resolve, 50)), { name: "slow" });
+            setTimeout(() => queue.cancel(), 10);
+            return p.then(() => assert.ok(false), err => {
+                assert(err instanceof TaskCancelledError);
+                assert(!(err instanceof TaskTimeoutError));
+                assert.equal(err.reason, cancellationTokenReasons.cancel);
+                assert.equal(err.queueName, "q");
+                assert.equal(err.taskLabel, "slow");
+                assert(err.elapsed >= 5);
+                assert(/^q: Task 'slow' has been cancelled after \d+ ms$/.test(err.message), err.message);
+            });
+        });
+
+        it("should reject with TaskTimeoutError when the task times out", () => {
+            var queue = new SequentialTaskQueue();
+            var p = queue.push(() => new Promise(resolve => setTimeout(resolve, 50)), { id: "t", timeout: 10 });
+            return p.then(() => assert.ok(false), err => {
+                assert(err instanceof TaskTimeoutError);
+                assert(err instanceof TaskCancelledError);
+                assert.equal(err.name, "TaskTimeoutError");
+                assert.equal(err.reason, cancellationTokenReasons.timeout);
+                assert.equal(err.taskLabel, "t");
+            });
+        });
+
+        it("should throw QueueClosedError when the queue is closed", () => {
+            var queue = new SequentialTaskQueue();
+            queue.close();
+            assert.throws(() => queue.push(() => { }), QueueClosedError);
+            return queue.pushAsync(() => { }).then(() => assert.ok(false), err => {
+                assert(err instanceof QueueClosedError);
+                assert.equal(err.message, "SequentialTaskQueue has been previously closed");
+            });
+        });
+
     });
 
     describe("# wait", () => {
@@ -270,6 +309,73 @@ describe("SequentialTaskQueue", () => {
                 }
             });
         });
+
+        it("should call the remaining handlers and report to the logger", () => {
+            var logger = { error: sinon.spy() };
+            var queue = new SequentialTaskQueue({ logger: logger });
+            var spy = sinon.spy();
+            queue.on("error", () => {
+                throw "Outer error";
+            });
+            queue.on("error", spy);
+            queue.push(() => {
+                throw "Inner error";
+            });
+            return queue.wait().then(() => {
+                assert(spy.calledWith("Inner error"));
+                assert(logger.error.calledWith("SequentialTaskQueue: Exception in 'error' event handler", "Outer error"));
+            });
+        });
+    });
+
+    describe("# onError", () => {
+
+        it("should continue by default", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => { throw "fail"; });
+            queue.push(() => res.push(1));
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [1]);
+            });
+        });
+
+        it("should pause the queue", () => {
+            var queue = new SequentialTaskQueue({ onError: "pause" });
+            var res = [];
+            queue.push(() => { throw "fail"; });
+            queue.push(() => res.push(1));
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                assert(queue.isPaused);
+                assert.deepEqual(res, []);
+                queue.resume();
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, [1]);
+            });
+        });
+
+        it("should cancel the remaining tasks", () => {
+            var queue = new SequentialTaskQueue({ onError: "cancel" });
+            queue.push(() => { throw "fail"; });
+            var p = queue.push(() => { });
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.cancel);
+                assert(!queue.isClosed);
+            });
+        });
+
+        it("should close the queue", () => {
+            var queue = new SequentialTaskQueue({ onError: "close" });
+            var spy = sinon.spy();
+            queue.push(() => { throw "fail"; });
+            queue.push(spy);
+            return queue.wait().then(() => {
+                assert(queue.isClosed);
+                assert(spy.called);
+                assert.throws(() => queue.push(() => { }), QueueClosedError);
+            });
+        });
     });
 
     describe("# event: drained", () => {
@@ -335,6 +441,78 @@ describe("SequentialTaskQueue", () => {
         });
     });
 
+    describe("# lifecycle events", () => {
+
+        function recordEvents(queue: SequentialTaskQueue) {
+            var events = [];
+            ["enqueued", "started", "succeeded", "failed", "cancelled", "timeout"].forEach((evt: any) => {
+                queue.on(evt, (task, value) => events.push([evt, task.name, value]));
+            });
+            return events;
+        }
+
+        it("should notify when a task succeeds", () => {
+            var queue = new SequentialTaskQueue();
+            var events = recordEvents(queue);
+            queue.push(() => 123, { name: "a" });
+            return queue.wait().then(() => {
+                assert.deepEqual(events, [["enqueued", "a", undefined], ["started", "a", undefined], ["succeeded", "a", 123]]);
+            });
+        });
+
+        it("should notify when a task fails", () => {
+            var queue = new SequentialTaskQueue();
+            var events = recordEvents(queue);
+            queue.push(() => Promise.reject("fail"), { name: "a" });
+            return queue.wait().then(() => {
+                assert.deepEqual(events, [["enqueued", "a", undefined], ["started", "a", undefined], ["failed", "a", "fail"]]);
+            });
+        });
+
+        it("should notify when a waiting task is cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var events = recordEvents(queue);
+            queue.push(() => { }, { name: "a" }).cancel("meh");
+            return queue.wait().then(() => {
+                assert.deepEqual(events, [["enqueued", "a", undefined], ["cancelled", "a", "meh"]]);
+            });
+        });
+
+        it("should notify only once when a cancelled task fails later", () => {
+            var queue = new SequentialTaskQueue();
+            var events = recordEvents(queue);
+            queue.push(() => new Promise((resolve, reject) => setTimeout(() => reject("fail"), 20)), { name: "a" });
+            setTimeout(() => queue.cancel(), 10);
+            return new Promise(resolve => setTimeout(resolve, 30)).then(() => {
+                assert.deepEqual(events, [["enqueued", "a", undefined], ["started", "a", undefined], ["cancelled", "a", events[2][2]]]);
+                assert.equal(events[2][2].reason, cancellationTokenReasons.cancel);
+            });
+        });
+
+        it("should pass the task and timing information to the handlers", () => {
+            var queue = new SequentialTaskQueue();
+            var info: TaskInfo;
+            queue.on("timeout", task => info = task);
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 50)), { id: "slow", timeout: 10 });
+            return queue.wait().then(() => {
+                assert.equal(info.id, "slow");
+                assert.equal(info.status, "running");
+                assert(info.enqueuedAt <= info.startedAt);
+            });
+        });
+
+        it("should record when the task has finished", () => {
+            var queue = new SequentialTaskQueue();
+            var info: TaskInfo;
+            queue.on("succeeded", task => info = task);
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 20)));
+            return queue.wait().then(() => {
+                assert.equal(info.status, "succeeded");
+                assert(info.finishedAt - info.startedAt >= 15);
+            });
+        });
+    });
+
     describe("# cancel", () => {
 
         it("should prevent queued tasks from running", () => {
@@ -464,62 +642,1348 @@ describe("SequentialTaskQueue", () => {
 
     });
 
-    describe("# once", () => {
+    describe("# priority", () => {
 
-        it("should register single-shot event handler", () => {
+        it("should run tasks with higher priority first", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => res.push(1));
+            queue.push(() => res.push(2), { priority: 1 });
+            queue.push(() => res.push(3), { priority: 2 });
+            queue.push(() => res.push(4), { priority: -1 });
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [3, 2, 1, 4]);
+            });
+        });
+
+        it("should keep FIFO order among tasks with equal priority", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var expected = [];
+            for (let i = 0; i < 1000; i++)
+                queue.push(n => res.push(n), { args: [i], priority: i % 3 });
+            for (let p = 2; p >= 0; p--)
+                for (let i = p; i < 1000; i += 3)
+                    expected.push(i);
+            return queue.wait().then(() => {
+                assert.deepEqual(res, expected);
+            });
+        });
 
+        it("should not interrupt the current task", () => {
             var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => new Promise(resolve => {
+                queue.push(() => res.push(2));
+                queue.push(() => res.push(3), { priority: 10 });
+                setTimeout(() => {
+                    res.push(1);
+                    resolve();
+                }, 10);
+            }));
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [1, 3, 2]);
+            });
+        });
+
+    });
+
+    describe("# retry", () => {
+
+        function failingTask(failures: number, attempts: number[]) {
+            return () => {
+                attempts.push(Date.now());
+                if (attempts.length <= failures)
+                    return Promise.reject("fail " + attempts.length);
+                return "done";
+            };
+        }
+
+        it("should retry a failed task until it succeeds", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
             var spy = sinon.spy();
-            queue.once("error", spy);
-            queue.push(() => { throw new Error("1"); });
-            queue.push(() => { throw new Error("2"); });
-            return queue.wait().then(() => assert(spy.calledOnce));
+            queue.on("retry", spy);
+            return queue.push(failingTask(2, attempts), { retry: { attempts: 3, delay: 10 } }).then(result => {
+                assert.equal(result, "done");
+                assert.equal(attempts.length, 3);
+                assert.deepEqual(spy.args, [["fail 1", 1], ["fail 2", 2]]);
+            });
+        });
+
+        it("should reject with the last error when out of attempts", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
+            var spy = sinon.spy();
+            queue.on("error", spy);
+            return queue.push(failingTask(5, attempts), { retry: { attempts: 2, delay: 10 } }).then(
+                () => assert.ok(false),
+                reason => {
+                    assert.equal(reason, "fail 2");
+                    assert.equal(attempts.length, 2);
+                    assert.deepEqual(spy.args, [["fail 2"]]);
+                });
+        });
+
+        it("should not retry when the predicate returns false", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
+            return queue.push(failingTask(5, attempts), { retry: { delay: 10, retryIf: err => err !== "fail 1" } }).then(
+                () => assert.ok(false),
+                reason => {
+                    assert.equal(reason, "fail 1");
+                    assert.equal(attempts.length, 1);
+                });
+        });
+
+        it("should increase the delay exponentially", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
+            return queue.push(failingTask(3, attempts), { retry: { attempts: 4, delay: 20 } }).then(() => {
+                var delays = attempts.slice(1).map((t, i) => t - attempts[i]);
+                assert(delays[0] >= 15 && delays[1] >= 35 && delays[2] >= 75, delays.join());
+            });
+        });
+
+        it("should run the next task only after the retried task has finished", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(failingTask(1, []), { retry: { delay: 10 } }).then(r => res.push(r));
+            queue.push(() => res.push("next"));
+            return queue.wait().then(() => {
+                assert.deepEqual(res, ["done", "next"]);
+            });
+        });
+
+        it("should not retry a task cancelled during the backoff delay", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
+            var p = queue.push(failingTask(5, attempts), { retry: { delay: 50 } });
+            setTimeout(() => p.cancel("cancelled"), 20);
+            return p.then(
+                () => assert.ok(false),
+                reason => new Promise(resolve => setTimeout(resolve, 100)).then(() => {
+                    assert.equal(reason, "cancelled");
+                    assert.equal(attempts.length, 1);
+                }));
         });
 
+        it("should cancel the task when the timeout expires during the backoff delay", () => {
+            var queue = new SequentialTaskQueue();
+            var attempts = [];
+            return queue.push(failingTask(5, attempts), { retry: { delay: 100 }, timeout: 50 }).then(
+                () => assert.ok(false),
+                reason => {
+                    assert.equal(reason.reason, cancellationTokenReasons.timeout);
+                    assert.equal(attempts.length, 1);
+                });
+        });
     });
-});
 
-describe("CancellationToken", () => {
-    describe("# cancel", () => {
-        it("should prevent task from running", () => {
+    describe("# pause", () => {
+
+        it("should not start tasks while paused", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.pause();
+            queue.push(spy);
+            return new Promise(resolve => setTimeout(resolve, 20)).then(() => {
+                assert(spy.notCalled);
+                assert(queue.isPaused);
+            });
+        });
+
+        it("should let the running task finish", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => new Promise(resolve => setTimeout(() => {
+                res.push(1);
+                resolve();
+            }, 20)));
+            queue.push(() => res.push(2));
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                queue.pause();
+                return new Promise(resolve => setTimeout(resolve, 30));
+            }).then(() => {
+                assert.deepEqual(res, [1]);
+            });
+        });
+
+        it("should run remaining tasks after resume", () => {
             var queue = new SequentialTaskQueue();
             var res = [];
+            var spy = sinon.spy();
+            queue.on("paused", () => spy("paused"));
+            queue.on("resumed", () => spy("resumed"));
+            queue.pause();
             queue.push(() => res.push(1));
-            var ct = queue.push(() => res.push(2));
-            queue.push(() => res.push(3));
-            ct.cancel();
-            return queue.wait().then(() => {
-                assert.deepEqual(res, [1, 3]);
+            queue.push(() => res.push(2));
+            var p = queue.wait().then(() => {
+                assert.deepEqual(res, [1, 2]);
+                assert.deepEqual(spy.args, [["paused"], ["resumed"]]);
             });
+            setTimeout(() => {
+                assert.deepEqual(res, []);
+                queue.resume();
+            }, 20);
+            return p;
         });
 
-        it("should cancel running task and execute the next one immediately", () => {
+        it("should resolve wait after cancelling a paused queue", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.pause();
+            var p = queue.push(spy);
+            var w = queue.wait();
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                queue.cancel();
+                return Promise.all([w, p.then(() => assert.ok(false), reason => reason)]);
+            }).then(results => {
+                assert.equal(results[1].reason, cancellationTokenReasons.cancel);
+                assert(spy.notCalled);
+            });
+        });
+    });
+
+    describe("# rate limit", () => {
+
+        it("should not start more tasks within the interval than the limit", () => {
             var clock = sinon.useFakeTimers();
             try {
-                var queue = new SequentialTaskQueue();
+                var queue = new SequentialTaskQueue({ rateLimit: { limit: 2, interval: 1000 } });
                 var res = [];
-                queue.push(() => res.push(1));
-                var ct = queue.push(token => new Promise((resolve, reject) => {
-                    if (token.cancelled)
-                        reject();
-                    setTimeout(() => {
-                        if (token.cancelled)
-                            reject();
-                        else {
-                            res.push(2);
-                            resolve();
-                        }
-                    }, 500);
-                }));
-                queue.push(() => res.push(3));
-                clock.tick(100);
-                ct.cancel();
+                for (let i = 1; i <= 5; i++)
+                    queue.push(() => res.push(i));
+                clock.tick(10);
+                assert.deepEqual(res, [1, 2]);
                 clock.tick(1000);
-                assert.deepEqual(res, [1, 3]);
-                queue.wait();
+                assert.deepEqual(res, [1, 2, 3, 4]);
+                clock.tick(1000);
+                assert.deepEqual(res, [1, 2, 3, 4, 5]);
+            } finally {
+                clock.restore();
+            }
+        });
+
+        it("should notify of the delay", () => {
+            var clock = sinon.useFakeTimers();
+            try {
+                var queue = new SequentialTaskQueue({ rateLimit: { limit: 1, interval: 1000 } });
+                var spy = sinon.spy();
+                queue.on("rateLimited", spy);
+                queue.push(() => { });
+                clock.tick(300);
+                queue.push(() => { });
+                clock.tick(10);
+                assert.deepEqual(spy.args, [[700]]);
             } finally {
                 clock.restore();
             }
         });
+
+        it("should use the clock of the scheduler", () => {
+            var time = 0;
+            var scheduler = {
+                schedule: callback => setImmediate(callback),
+                now: () => time
+            };
+            var queue = new SequentialTaskQueue({ scheduler: scheduler, rateLimit: { limit: 1, interval: 10000 } });
+            var spy = sinon.spy();
+            queue.on("rateLimited", delay => {
+                spy(delay);
+                time += delay;
+            });
+            queue.push(() => { time = 10000 - 20; });
+            queue.push(() => { });
+            return queue.wait().then(() => {
+                assert.deepEqual(spy.args, [[20]]);
+            });
+        });
+    });
+
+    describe("# typings", () => {
+
+        it("should infer the result type of the task", () => {
+            var queue = new SequentialTaskQueue();
+            var p1: CancellablePromiseLike<number> = queue.push(() => 1);
+            var p2: CancellablePromiseLike<string> = queue.push(() => Promise.resolve("a"));
+            return Promise.all([p1, p2]).then(results => {
+                assert.deepEqual(results, [1, "a"]);
+            });
+        });
+
+        it("should accept args matching the parameters of the task", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push((n: number, ct: CancellationToken) => res.push(n), { args: 1 });
+            queue.push((n: number, ct: CancellationToken) => res.push(n), { args: [2] });
+            queue.push((a: number[], ct: CancellationToken) => res.push(a), { args: [[3]] });
+            queue.push((n: number, s: string, ct: CancellationToken) => res.push(n, s), { args: [4, "5"] });
+            queue.push((s: string, x: any) => res.push(s, x), { args: ["6", 7] });
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [1, 2, [3], 4, "5", "6", 7]);
+            });
+        });
+
+        it("should accept tasks typed as Function", () => {
+            var queue = new SequentialTaskQueue();
+            var task: Function = (n: number) => n + 1;
+            var p: CancellablePromiseLike<any> = queue.push(task, { args: 1 });
+            return p.then(result => {
+                assert.equal(result, 2);
+            });
+        });
     });
-});
\ No newline at end of file
+
+    describe("# introspection", () => {
+
+        it("should count running and waiting tasks", () => {
+            var queue = new SequentialTaskQueue();
+            assert.equal(queue.size, 0);
+            assert(!queue.isRunning);
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 20)));
+            queue.push(() => { });
+            queue.push(() => { });
+            assert.equal(queue.size, 3);
+            assert.equal(queue.pendingCount, 3);
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                assert.equal(queue.size, 3);
+                assert.equal(queue.pendingCount, 2);
+                assert(queue.isRunning);
+                return queue.wait();
+            }).then(() => {
+                assert.equal(queue.size, 0);
+                assert(!queue.isRunning);
+            });
+        });
+
+        it("should not count cancelled tasks", () => {
+            var queue = new SequentialTaskQueue();
+            queue.push(() => { });
+            queue.push(() => { }).cancel();
+            assert.equal(queue.pendingCount, 1);
+            return queue.wait();
+        });
+
+        it("should list tasks in the order they will be run", () => {
+            var queue = new SequentialTaskQueue();
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 20)), { name: "first" });
+            queue.push(() => { }, { name: "low", timeout: 100 });
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                queue.push(() => { }, { id: "urgent", priority: 1 });
+                var tasks = queue.getTasks();
+                assert.deepEqual(tasks.map(t => [t.id, t.name, t.status, t.timeout]), [
+                    [0, "first", "running", undefined],
+                    ["urgent", undefined, "pending", undefined],
+                    [1, "low", "pending", 100]
+                ]);
+                assert(tasks.every(t => typeof t.enqueuedAt === "number"));
+                assert.equal(typeof tasks[0].startedAt, "number");
+                return queue.wait();
+            });
+        });
+
+        it("should find a task by id", () => {
+            var queue = new SequentialTaskQueue();
+            queue.push(() => { }, { id: "a" });
+            queue.push(() => { }, { id: "b", name: "task b" });
+            assert.equal(queue.getTask("b").name, "task b");
+            assert.equal(queue.getTask("c"), undefined);
+            return queue.wait().then(() => {
+                assert.equal(queue.getTask("b"), undefined);
+            });
+        });
+
+        it("should keep the order of the remaining tasks after cancelling some of them", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var tasks = [];
+            for (let i = 0; i < 100; i++)
+                tasks.push(queue.push(() => res.push(i), { priority: i % 4 }));
+            tasks.forEach((t, i) => {
+                if (i % 3 === 0)
+                    t.cancel();
+            });
+            var expected = queue.getTasks().map(t => t.id);
+            return queue.wait().then(() => {
+                assert.equal(expected.length, 66);
+                assert.deepEqual(res, expected);
+            });
+        });
+    });
+
+    describe("# maxSize", () => {
+
+        it("should throw when pushing to a full queue", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2 });
+            queue.push(() => { });
+            queue.push(() => { });
+            assert(queue.isFull);
+            assert.throws(() => queue.push(() => { }), /full/);
+            return queue.wait();
+        });
+
+        it("should reject the new task when overflow is 'reject'", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2, overflow: "reject" });
+            var res = [];
+            queue.push(() => res.push(1));
+            queue.push(() => res.push(2));
+            var p = queue.push(() => res.push(3));
+            assert.equal(queue.pendingCount, 2);
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.overflow);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, [1, 2]);
+            });
+        });
+
+        it("should not emit enqueued for a rejected task", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 1, overflow: "reject" });
+            var enqueued = sinon.spy();
+            var cancelled = sinon.spy();
+            queue.on("enqueued", enqueued);
+            queue.on("cancelled", cancelled);
+            queue.push(() => { }, { name: "a" });
+            var p = queue.push(() => { }, { name: "b" });
+            assert.deepEqual(enqueued.args.map(args => args[0].name), ["a"]);
+            assert.deepEqual(cancelled.args.map(args => args[0].name), ["b"]);
+            return p.then(() => assert.ok(false), () => queue.wait());
+        });
+
+        it("should drop the oldest task when overflow is 'dropOldest'", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2, overflow: "dropOldest" });
+            var res = [];
+            var p = queue.push(() => res.push(1));
+            queue.push(() => res.push(2), { priority: -1 });
+            queue.push(() => res.push(3), { priority: 1 });
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.overflow);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, [3, 2]);
+            });
+        });
+
+        it("should not admit tasks waiting for room when dropping the oldest task", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2, overflow: "dropOldest" });
+            var res = [];
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 10)));
+            return new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+                queue.push(() => res.push("a"), { name: "a" });
+                queue.push(() => res.push("b"), { name: "b" });
+                queue.pushAsync(() => res.push("c"), { name: "c" });
+                queue.push(() => res.push("d"), { name: "d" });
+                // c is still waiting for room, after the tasks in the queue
+                assert.deepEqual(queue.getTasks().slice(1).map(task => task.name), ["b", "d", "c"]);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res.sort(), ["b", "c", "d"]);
+            });
+        });
+
+        it("should hold back tasks until there is room when overflow is 'wait'", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2, overflow: "wait" });
+            var res = [];
+            var results = [];
+            for (let i = 0; i < 5; i++)
+                results.push(queue.push(() => res.push(i)));
+            assert.equal(queue.pendingCount, 5);
+            assert.deepEqual(queue.getTasks().map(t => t.id), [0, 1, 2, 3, 4]);
+            return Promise.all(results).then(() => {
+                assert.deepEqual(res, [0, 1, 2, 3, 4]);
+                assert.equal(queue.size, 0);
+            });
+        });
+
+        it("should cancel tasks waiting for room", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 1, overflow: "wait" });
+            var res = [];
+            queue.push(() => res.push(1));
+            var p = queue.push(() => res.push(2));
+            return queue.cancel().then(() => p).then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.cancel);
+                assert.equal(queue.size, 0);
+                assert.deepEqual(res, []);
+            });
+        });
+    });
+
+    describe("# pushAsync", () => {
+
+        it("should resolve immediately when the queue is not full", () => {
+            var queue = new SequentialTaskQueue();
+            return queue.pushAsync(() => 42, { id: "answer" }).then(task => {
+                assert.equal(task.id, "answer");
+                return task.promise;
+            }).then(result => {
+                assert.equal(result, 42);
+            });
+        });
+
+        it("should wait for room in a full queue", () => {
+            var queue = new SequentialTaskQueue({ maxSize: 2 });
+            var res = [];
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 10)).then(() => res.push(1)));
+            queue.push(() => res.push(2));
+            var accepted = false;
+            var p = queue.pushAsync(() => res.push(3)).then(task => {
+                accepted = true;
+                // the first task has been started, the second one is still waiting
+                assert.deepEqual(res, []);
+                return task.promise;
+            });
+            assert(!accepted);
+            return p.then(() => {
+                assert.deepEqual(res, [1, 2, 3]);
+            });
+        });
+
+        it("should reject if the queue is closed", () => {
+            var queue = new SequentialTaskQueue();
+            queue.close();
+            return queue.pushAsync(() => { }).then(() => assert.ok(false), err => {
+                assert(err instanceof Error);
+            });
+        });
+    });
+
+    describe("# key", () => {
+
+        it("should return the promise of the waiting task with the same key", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var p1 = queue.push(() => { spy(); return 1; }, { key: "refresh" });
+            var p2 = queue.push(() => { spy(); return 2; }, { key: "refresh" });
+            assert.equal(queue.size, 1);
+            return Promise.all([p1, p2]).then(results => {
+                assert.deepEqual(results, [1, 1]);
+                assert.equal(spy.callCount, 1);
+            });
+        });
+
+        it("should replace the waiting task with the same key", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var p1 = queue.push(() => res.push("a"), { key: "refresh" });
+            queue.push(() => res.push("b"));
+            var p2 = queue.push(() => { res.push("c"); return "c"; }, { key: "refresh", coalesce: "replace" });
+            return Promise.all([p1, p2]).then(results => {
+                assert.deepEqual(results, ["c", "c"]);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, ["c", "b"]);
+            });
+        });
+
+        it("should ignore the task if a task with the same key is waiting", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.push(spy, { key: "refresh", args: "first" });
+            var p = queue.push(spy, { key: "refresh", args: "second", coalesce: "ignore" });
+            return p.then(result => {
+                assert.equal(result, undefined);
+                return queue.wait();
+            }).then(() => {
+                assert.equal(spy.callCount, 1);
+                assert.equal(spy.args[0][0], "first");
+            });
+        });
+
+        it("should not coalesce with the running task", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 20)).then(() => res.push(1)), { key: "refresh" });
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                queue.push(() => res.push(2), { key: "refresh", coalesce: "replace" });
+                queue.push(() => res.push(3), { key: "refresh" });
+                assert.deepEqual(queue.getTasks().map(t => t.key), ["refresh", "refresh"]);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, [1, 2]);
+            });
+        });
+
+        it("should not coalesce with a cancelled task", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.push(spy, { key: "refresh" }).cancel();
+            queue.push(spy, { key: "refresh" });
+            return queue.wait().then(() => {
+                assert.equal(spy.callCount, 1);
+            });
+        });
+    });
+
+    describe("# delay", () => {
+
+        it("should not start a task before it is due", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var start = Date.now();
+            queue.push(() => res.push(Date.now() - start), { delay: 30 });
+            queue.push(() => res.push("now"));
+            return queue.wait().then(() => {
+                assert.equal(res[0], "now");
+                assert(res[1] >= 25);
+            });
+        });
+
+        it("should accept an absolute time", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => res.push(2), { runAt: new Date(Date.now() + 20) });
+            queue.push(() => res.push(1), { runAt: Date.now() + 10 });
+            queue.push(() => res.push(0), { runAt: new Date(Date.now() - 1000) });
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [0, 1, 2]);
+            });
+        });
+
+        it("should list scheduled tasks", () => {
+            var queue = new SequentialTaskQueue();
+            var runAt = Date.now() + 20;
+            queue.push(() => { }, { id: "later", runAt: runAt });
+            queue.push(() => { }, { id: "now" });
+            assert.equal(queue.pendingCount, 2);
+            assert.deepEqual(queue.getTasks().map(t => [t.id, t.status, t.runAt]), [["now", "pending", undefined], ["later", "scheduled", runAt]]);
+            return queue.wait().then(() => {
+                assert.equal(queue.size, 0);
+            });
+        });
+
+        it("should cancel scheduled tasks", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var p = queue.push(spy, { delay: 1000 });
+            var drained = sinon.spy();
+            queue.on("drained", drained);
+            var start = Date.now();
+            queue.cancel();
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.cancel);
+                return queue.wait();
+            }).then(() => {
+                assert(Date.now() - start < 500);
+                assert(!spy.called);
+                assert(drained.calledOnce);
+            });
+        });
+
+        it("should emit drained after the scheduled tasks have finished", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.on("drained", () => res.push("drained"));
+            queue.push(() => res.push("later"), { delay: 20 });
+            queue.push(() => res.push("now"));
+            return queue.wait().then(() => {
+                assert.deepEqual(res, ["now", "later", "drained"]);
+            });
+        });
+    });
+
+    describe("# dependsOn", () => {
+
+        it("should run a task after its dependencies", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => res.push("a"), { id: "a" });
+            queue.push(() => res.push("b"), { id: "b" });
+            queue.push(() => res.push("c"), { priority: 1, dependsOn: ["a", "b"] });
+            queue.push(() => res.push("d"), { priority: 1 });
+            return queue.wait().then(() => {
+                assert.deepEqual(res, ["d", "a", "b", "c"]);
+            });
+        });
+
+        it("should accept promises as dependencies", () => {
+            var queue = new ConcurrentTaskQueue({ concurrency: 2 });
+            var res = [];
+            var a = queue.push(() => new Promise(resolve => setTimeout(resolve, 20)).then(() => res.push("a")));
+            queue.push(() => res.push("b"), { dependsOn: [a] });
+            queue.push(() => res.push("c"));
+            return queue.wait().then(() => {
+                assert.deepEqual(res, ["c", "a", "b"]);
+            });
+        });
+
+        it("should reject unknown dependencies", () => {
+            var queue = new SequentialTaskQueue();
+            assert.throws(() => queue.push(() => { }, { id: "b", dependsOn: ["a"] }), /unknown task 'a'/);
+            assert.equal(queue.size, 0);
+        });
+
+        it("should remember finished dependencies", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => res.push("a"), { id: "a" });
+            queue.push(() => { throw "fail"; }, { id: "b" });
+            return queue.wait().then(() => {
+                var c = queue.push(() => res.push("c"), { dependsOn: ["a"] });
+                var d = queue.push(() => res.push("d"), { dependsOn: ["b"] });
+                return Promise.all([c, d.then(() => assert.ok(false), reason => reason.reason)]);
+            }).then(results => {
+                assert.equal(results[1], cancellationTokenReasons.dependency);
+                assert.deepEqual(res, ["a", "c"]);
+            });
+        });
+
+        it("should cancel the task if a dependency fails", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.push(() => { throw "fail"; }, { id: "a" });
+            var b = queue.push(spy, { id: "b", dependsOn: ["a"] });
+            var c = queue.push(spy, { dependsOn: ["b"] });
+            return Promise.all([b, c].map(p => p.then(() => assert.ok(false), reason => reason.reason))).then(reasons => {
+                assert.deepEqual(reasons, [cancellationTokenReasons.dependency, cancellationTokenReasons.dependency]);
+                assert(!spy.called);
+                return queue.wait();
+            });
+        });
+
+        it("should apply the overflow strategy to tasks released into a full queue", () => {
+            var push = (overflow: OverflowStrategy) => {
+                var queue = new SequentialTaskQueue({ maxSize: 1, overflow: overflow });
+                var res = [];
+                var release: () => void;
+                var dependency = new Promise(resolve => release = resolve);
+                queue.push(() => new Promise(resolve => setTimeout(resolve, 20)).then(() => res.push("a")));
+                var b = queue.push(() => res.push("b"), { dependsOn: [dependency] });
+                return new Promise(resolve => setTimeout(resolve, 5)).then(() => {
+                    queue.push(() => res.push("c"));
+                    release();
+                    return Promise.all([b.then(() => "resolved", reason => reason.reason), queue.wait()]);
+                }).then(results => [results[0]].concat(res));
+            };
+            return Promise.all([push("reject"), push("wait")]).then(results => {
+                assert.deepEqual(results, [
+                    [cancellationTokenReasons.overflow, "a", "c"],
+                    ["resolved", "a", "c", "b"]
+                ]);
+            });
+        });
+
+        it("should detect circular dependencies", () => {
+            var queue = new SequentialTaskQueue();
+            assert.throws(() => queue.push(() => { }, { id: "a", dependsOn: ["a"] }), /circular/);
+            queue.push(() => { }, { id: "a" });
+            queue.push(() => { }, { id: "b", dependsOn: ["a"] });
+            queue.push(() => { }, { id: "c", dependsOn: ["b"] });
+            assert.throws(() => queue.push(() => { }, { id: "a", dependsOn: ["c"] }), /circular/);
+            queue.push(() => { }, { id: "x" });
+            var p = queue.push(() => { }, { dependsOn: ["x"] });
+            assert.throws(() => queue.push(() => { }, { id: "x", dependsOn: [p] }), /circular/);
+            return queue.cancel();
+        });
+
+        it("should cancel tasks waiting for their dependencies", () => {
+            var queue = new SequentialTaskQueue();
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 10)), { id: "a" });
+            var p = queue.push(() => { }, { dependsOn: ["a"] });
+            assert.deepEqual(queue.getTasks().map(t => t.status), ["pending", "waiting"]);
+            queue.cancel();
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.cancel);
+                return queue.wait();
+            }).then(() => {
+                assert.equal(queue.size, 0);
+            });
+        });
+    });
+
+    describe("# schedule", () => {
+
+        it("should push the task repeatedly", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var task = queue.schedule(spy, { every: 10, args: "foo" });
+            return new Promise(resolve => setTimeout(resolve, 55)).then(() => {
+                task.stop();
+                assert(task.isStopped);
+                var count = spy.callCount;
+                assert(count >= 3);
+                assert.equal(spy.args[0][0], "foo");
+                return new Promise(resolve => setTimeout(resolve, 30)).then(() => {
+                    assert.equal(spy.callCount, count);
+                });
+            });
+        });
+
+        it("should skip a run if the previous one hasn't finished", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 80)));
+            var task = queue.schedule(spy, { every: 10 });
+            return new Promise(resolve => setTimeout(resolve, 55)).then(() => {
+                task.stop();
+                assert.equal(queue.pendingCount, 1);
+                return queue.wait();
+            }).then(() => {
+                assert.equal(spy.callCount, 1);
+            });
+        });
+
+        it("should stop when the queue is closed", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var task = queue.schedule(spy, { every: 10 });
+            return new Promise(resolve => setTimeout(resolve, 15)).then(() => queue.close()).then(() => {
+                assert(task.isStopped);
+                assert.equal(spy.callCount, 1);
+                assert.throws(() => queue.schedule(spy, { every: 10 }));
+            });
+        });
+
+        it("should push the task according to a cron expression", () => {
+            // the clock is 10 ms before the next minute
+            var now = new Date(2020, 0, 1, 10, 59, 59, 990).getTime();
+            var queue = new SequentialTaskQueue({ scheduler: { schedule: callback => setTimeout(<any>callback, 0), now: () => now } });
+            return new Promise(resolve => {
+                var task = queue.schedule(() => {
+                    task.stop();
+                    resolve();
+                }, { cron: "0 * * * *" });
+            });
+        });
+
+        it("should throw on missing or invalid schedule", () => {
+            var queue = new SequentialTaskQueue();
+            assert.throws(() => queue.schedule(() => { }, {}));
+            assert.throws(() => queue.schedule(() => { }, { cron: "foo" }));
+        });
+    });
+
+    describe("# debounce", () => {
+
+        it("should push the task after the calls stop", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy((n: number) => n * 2);
+            var fn = queue.debounce(spy, 20);
+            var p1 = fn(1);
+            var p2 = fn(2);
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+                assert.equal(queue.size, 0);
+                return Promise.all([p1, p2, fn(3)]);
+            }).then(results => {
+                assert.deepEqual(results, [6, 6, 6]);
+                assert.equal(spy.callCount, 1);
+                assert.equal(spy.args[0][0], 3);
+            });
+        });
+
+        it("should reject pending calls when the queue is cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var p = queue.debounce(spy, 10)();
+            queue.cancel();
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.cancel);
+                return new Promise(resolve => setTimeout(resolve, 20));
+            }).then(() => {
+                assert(!spy.called);
+            });
+        });
+
+        it("should push pending calls when the queue is closed", () => {
+            var queue = new SequentialTaskQueue();
+            var fn = queue.debounce((s: string) => s, 1000);
+            var p = fn("foo");
+            return queue.close().then(() => p).then(result => {
+                assert.equal(result, "foo");
+                assert.throws(() => fn("bar"));
+            });
+        });
+    });
+
+    describe("# throttle", () => {
+
+        it("should push the task at most once per time window", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy((n: number) => n);
+            var fn = queue.throttle(spy, 30);
+            var p1 = fn(1);
+            var p2 = fn(2);
+            var p3 = fn(3);
+            return Promise.all([p1, p2, p3]).then(results => {
+                assert.deepEqual(results, [1, 3, 3]);
+                assert.deepEqual(spy.args.map(a => a[0]), [1, 3]);
+                return fn(4);
+            }).then(result => {
+                // the previous task was pushed at the end of the window, so this one has to wait, too
+                assert.equal(result, 4);
+                assert.equal(spy.callCount, 3);
+            });
+        });
+
+        it("should serialize with other tasks", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var fn = queue.throttle((s: string) => res.push(s), 10);
+            queue.push(() => new Promise(resolve => setTimeout(resolve, 20)).then(() => res.push("slow")));
+            fn("a");
+            fn("b");
+            return queue.wait().then(() => new Promise(resolve => setTimeout(resolve, 20))).then(() => queue.wait()).then(() => {
+                assert.deepEqual(res, ["slow", "a", "b"]);
+            });
+        });
+    });
+
+    describe("# results", () => {
+
+        function readAll(iterator: AsyncIterator<any>, outcomes: any[] = []): PromiseLike<any[]> {
+            return iterator.next().then(result => result.done ? outcomes : readAll(iterator, outcomes.concat([result.value])));
+        }
+
+        it("should iterate the outcomes in completion order until the queue is closed", () => {
+            var queue = new SequentialTaskQueue();
+            var iterator = queue.results()[Symbol.asyncIterator]();
+            queue.push(() => 1, { id: "a" });
+            queue.push(() => { throw "fail"; }, { id: "b" });
+            queue.push(() => new Promise(() => { }), { id: "c" }).cancel("stop");
+            queue.push(() => 2, { id: "d" });
+            queue.close();
+            return readAll(iterator).then(outcomes => {
+                assert.deepEqual(outcomes.map(o => [o.task.id, o.task.status, o.result, o.error]), [
+                    ["c", "cancelled", undefined, "stop"],
+                    ["a", "succeeded", 1, undefined],
+                    ["b", "failed", undefined, "fail"],
+                    ["d", "succeeded", 2, undefined]
+                ]);
+            });
+        });
+
+        it("should stop listening when the iteration is ended early", () => {
+            var queue = new SequentialTaskQueue();
+            var iterator = queue.results()[Symbol.asyncIterator]();
+            queue.push(() => 1);
+            return iterator.next().then(result => {
+                assert.equal(result.value.result, 1);
+                return iterator.return();
+            }).then(result => {
+                assert(result.done);
+                queue.push(() => 2);
+                return queue.wait();
+            }).then(() => iterator.next()).then(result => {
+                assert(result.done);
+                // a returned iterator doesn't wait for the queue when it is closed
+                var wait = sinon.spy(queue, "wait");
+                return queue.close().then(() => {
+                    assert(wait.calledOnce);
+                });
+            });
+        });
+    });
+
+    describe("# group", () => {
+
+        it("should resolve wait with the results of the group's tasks", () => {
+            var queue = new SequentialTaskQueue();
+            var group = queue.group();
+            group.push(() => 1);
+            queue.push(() => new Promise(() => { }), { timeout: 50 });
+            group.push(() => new Promise(resolve => setTimeout(() => resolve(2), 10)));
+            return group.wait().then(results => {
+                assert.deepEqual(results, [1, 2]);
+                assert.equal(queue.size, 0);
+            });
+        });
+
+        it("should reject wait when a task fails, unless settled is set", () => {
+            var queue = new SequentialTaskQueue();
+            var group = queue.group();
+            group.push(() => { throw "fail"; });
+            group.push(() => 2);
+            return group.wait().then(() => assert.ok(false), reason => {
+                assert.equal(reason, "fail");
+                return group.wait({ settled: true });
+            }).then(results => {
+                assert.deepEqual(results, [{ status: "rejected", reason: "fail" }, { status: "fulfilled", value: 2 }]);
+            });
+        });
+
+        it("should cancel only the tasks of the group", () => {
+            var queue = new SequentialTaskQueue();
+            var group = queue.group();
+            var res = [];
+            group.push(() => new Promise(resolve => setTimeout(resolve, 50)).then(() => res.push("a")));
+            queue.push(() => res.push("b"));
+            group.push(() => res.push("c"));
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => group.cancel("stop")).then(results => {
+                assert.deepEqual(results.map(r => r.reason), ["stop", "stop"]);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, ["b"]);
+            });
+        });
+
+        it("should report progress", () => {
+            var queue = new SequentialTaskQueue();
+            var group = queue.group();
+            var spy = sinon.spy();
+            group.on("progress", spy);
+            group.push(() => 1);
+            group.push(() => { throw "fail"; });
+            return group.wait({ settled: true }).then(() => {
+                assert.deepEqual(spy.args.map(args => args[0]), [{ completed: 1, total: 2 }, { completed: 2, total: 2 }]);
+                assert.deepEqual(group.progress, { completed: 2, total: 2 });
+            });
+        });
+
+        it("should call single-shot handlers once, and isolate failing handlers", () => {
+            var logger = { error: sinon.spy() };
+            var queue = new SequentialTaskQueue({ logger: logger });
+            var group = queue.group("g");
+            var once = sinon.spy();
+            var spy = sinon.spy();
+            group.on("progress", () => { throw new Error("handler"); });
+            group.once("progress", once);
+            group.on("progress", spy);
+            group.push(() => 1);
+            group.push(() => 2);
+            return group.wait().then(() => {
+                assert(once.calledOnce);
+                assert(spy.calledTwice);
+                assert.equal(logger.error.callCount, 2);
+                assert(/^g: Exception in 'progress' event handler/.test(logger.error.args[0][0]));
+            });
+        });
+    });
+
+    describe("# once", () => {
+
+        it("should register single-shot event handler", () => {
+
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.once("error", spy);
+            queue.push(() => { throw new Error("1"); });
+            queue.push(() => { throw new Error("2"); });
+            return queue.wait().then(() => assert(spy.calledOnce));
+        });
+
+    });
+});
+
+describe("CancellationToken", () => {
+    describe("# cancel", () => {
+        it("should prevent task from running", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            queue.push(() => res.push(1));
+            var ct = queue.push(() => res.push(2));
+            queue.push(() => res.push(3));
+            ct.cancel();
+            return queue.wait().then(() => {
+                assert.deepEqual(res, [1, 3]);
+            });
+        });
+
+        it("should cancel running task and execute the next one immediately", () => {
+            var clock = sinon.useFakeTimers();
+            try {
+                var queue = new SequentialTaskQueue();
+                var res = [];
+                queue.push(() => res.push(1));
+                var ct = queue.push(token => new Promise((resolve, reject) => {
+                    if (token.cancelled)
+                        reject();
+                    setTimeout(() => {
+                        if (token.cancelled)
+                            reject();
+                        else {
+                            res.push(2);
+                            resolve();
+                        }
+                    }, 500);
+                }));
+                queue.push(() => res.push(3));
+                clock.tick(100);
+                ct.cancel();
+                clock.tick(1000);
+                assert.deepEqual(res, [1, 3]);
+                queue.wait();
+            } finally {
+                clock.restore();
+            }
+        });
+    });
+
+    describe("# onCancelled", () => {
+
+        it("should call the callback with the reason when the task is cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            var p = queue.push((token: CancellationToken) => new Promise(resolve => {
+                token.onCancelled(spy);
+                setTimeout(resolve, 50);
+            }));
+            setTimeout(() => p.cancel("meh"), 10);
+            return p.then(() => assert.ok(false), () => {
+                assert(spy.calledOnce);
+                assert.equal(spy.args[0][0], "meh");
+            });
+        });
+
+        it("should call the callback immediately if the task has been cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var spy = sinon.spy();
+            queue.push((token: CancellationToken) => {
+                token.cancel("meh");
+                token.onCancelled(spy);
+            });
+            return queue.wait().then(() => {
+                assert(spy.calledWith("meh"));
+            });
+        });
+    });
+
+    describe("# throwIfCancelled", () => {
+
+        it("should throw the reason after the task has been cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var thrown;
+            queue.push((token: CancellationToken) => {
+                token.throwIfCancelled();
+                token.cancel("meh");
+                try {
+                    token.throwIfCancelled();
+                } catch (e) {
+                    thrown = e;
+                }
+            });
+            return queue.wait().then(() => {
+                assert.equal(thrown, "meh");
+            });
+        });
+    });
+
+    describe("# signal", () => {
+
+        it("should abort the signal when the task is cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var reason;
+            var p = queue.push((token: CancellationToken) => new Promise(resolve => {
+                token.signal.addEventListener("abort", () => {
+                    reason = token.signal.reason;
+                    resolve();
+                });
+            }));
+            setTimeout(() => p.cancel("meh"), 10);
+            return queue.wait().then(() => {
+                assert.equal(reason, "meh");
+            });
+        });
+
+        it("should abort with AbortError when the queue is cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var signal;
+            queue.push((token: CancellationToken) => {
+                signal = token.signal;
+                queue.cancel();
+            });
+            return queue.wait().then(() => {
+                assert(signal.aborted);
+                assert.equal(signal.reason.name, "AbortError");
+            });
+        });
+
+        it("should abort with AbortError when the task is cancelled because of overflow", () => {
+            var queue = new SequentialTaskQueue();
+            var signal;
+            var p = queue.push((token: CancellationToken) => {
+                signal = token.signal;
+                p.cancel(cancellationTokenReasons.overflow);
+            });
+            return queue.wait().then(() => {
+                assert(signal.aborted);
+                assert.equal(signal.reason.name, "AbortError");
+                assert(/full/.test(signal.reason.message));
+            });
+        });
+
+        it("should abort with TimeoutError when the task times out", () => {
+            var queue = new SequentialTaskQueue();
+            var signal;
+            queue.push((token: CancellationToken) => {
+                signal = token.signal;
+                return new Promise(resolve => setTimeout(resolve, 100));
+            }, { timeout: 10 });
+            return queue.wait().then(() => {
+                assert(signal.aborted);
+                assert.equal(signal.reason.name, "TimeoutError");
+            });
+        });
+
+        it("should return an aborted signal after the task has been cancelled", () => {
+            var queue = new SequentialTaskQueue();
+            var signal;
+            var p = queue.push((token: CancellationToken) => new Promise(resolve => {
+                setTimeout(() => {
+                    signal = token.signal;
+                    resolve();
+                }, 30);
+            }));
+            setTimeout(() => p.cancel("meh"), 10);
+            return new Promise(resolve => setTimeout(resolve, 50)).then(() => {
+                assert(signal.aborted);
+                assert.equal(signal.reason, "meh");
+            });
+        });
+    });
+});
+
+describe("TaskOptions", () => {
+    describe("# signal", () => {
+
+        it("should cancel the task when the signal is aborted", () => {
+            var queue = new SequentialTaskQueue();
+            var controller = new AbortController();
+            var p = queue.push(() => new Promise(resolve => setTimeout(resolve, 100)), { signal: controller.signal });
+            setTimeout(() => controller.abort("stop"), 10);
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason, "stop");
+            });
+        });
+
+        it("should cancel the task when the signal is already aborted", () => {
+            var queue = new SequentialTaskQueue();
+            var controller = new AbortController();
+            var spy = sinon.spy();
+            controller.abort("stop");
+            var p = queue.push(spy, { signal: controller.signal });
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason, "stop");
+                assert(spy.notCalled);
+            });
+        });
+
+        it("should not cancel the task after it has finished", () => {
+            var queue = new SequentialTaskQueue();
+            var controller = new AbortController();
+            var p = queue.push(() => 123, { signal: controller.signal });
+            return p.then(result => {
+                controller.abort("stop");
+                assert.equal(result, 123);
+            });
+        });
+    });
+
+    describe("# cooperativeCancellation", () => {
+
+        function cleanup(res: string[], ms: number) {
+            return (token: CancellationToken) => new Promise((resolve, reject) => {
+                token.onCancelled(reason => setTimeout(() => {
+                    res.push("cleaned up");
+                    reject(reason);
+                }, ms));
+            });
+        }
+
+        it("should wait for the cancelled task to settle before running the next one", () => {
+            var queue = new SequentialTaskQueue({ cooperativeCancellation: true });
+            var res = [];
+            var p = queue.push(cleanup(res, 20));
+            queue.push(() => res.push("next"));
+            setTimeout(() => p.cancel("stop"), 10);
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason, "stop");
+                assert.deepEqual(res, ["cleaned up"]);
+                return queue.wait();
+            }).then(() => {
+                assert.deepEqual(res, ["cleaned up", "next"]);
+            });
+        });
+
+        it("should proceed after the grace period", () => {
+            var queue = new SequentialTaskQueue();
+            var res = [];
+            var p = queue.push(cleanup(res, 100), { cooperativeCancellation: 20 });
+            queue.push(() => res.push("next"));
+            setTimeout(() => p.cancel(), 10);
+            return queue.wait().then(() => {
+                assert.deepEqual(res, ["next"]);
+            });
+        });
+
+        it("should wait for running tasks when the queue is cancelled", () => {
+            var queue = new SequentialTaskQueue({ cooperativeCancellation: true });
+            var res = [];
+            queue.push(cleanup(res, 20));
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => queue.cancel()).then(() => {
+                assert.deepEqual(res, ["cleaned up"]);
+                assert(!queue.isRunning);
+            });
+        });
+
+        it("should emit drained once, after the cancelled task has settled", () => {
+            var queue = new SequentialTaskQueue({ cooperativeCancellation: true });
+            var res = [];
+            var drained = [];
+            queue.on("drained", () => drained.push(queue.isRunning));
+            queue.push(cleanup(res, 20));
+            queue.push(() => res.push("next"));
+            return new Promise(resolve => setTimeout(resolve, 10)).then(() => queue.cancel()).then(() => {
+                assert.deepEqual(res, ["cleaned up"]);
+                assert.deepEqual(drained, [false]);
+            });
+        });
+    });
+});
+
+describe("ConcurrentTaskQueue", () => {
+
+    function delay(ms: number) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    it("should run no more tasks at the same time than the concurrency limit", () => {
+        var queue = new ConcurrentTaskQueue({ concurrency: 3 });
+        var running = 0;
+        var maxRunning = 0;
+        for (let i = 0; i < 10; i++)
+            queue.push(() => {
+                running++;
+                maxRunning = Math.max(running, maxRunning);
+                return delay(10).then(() => { running--; });
+            });
+        return queue.wait().then(() => {
+            assert.equal(maxRunning, 3);
+        });
+    });
+
+    it("should start tasks in queue order", () => {
+        var queue = new ConcurrentTaskQueue({ concurrency: 2 });
+        var res = [];
+        queue.push(() => delay(50).then(() => res.push(1)));
+        queue.push(() => delay(10).then(() => res.push(2)));
+        queue.push(() => delay(10).then(() => res.push(3)));
+        queue.push(() => res.push(4), { priority: 1 });
+        return queue.wait().then(() => {
+            assert.deepEqual(res, [4, 2, 3, 1]);
+        });
+    });
+
+    it("should emit drained when all running tasks have finished", () => {
+        var queue = new ConcurrentTaskQueue({ concurrency: 2 });
+        var spy = sinon.spy();
+        queue.on("drained", () => spy("drained"));
+        queue.push(() => delay(30).then(() => spy(1)));
+        queue.push(() => delay(10).then(() => spy(2)));
+        return queue.wait().then(() => {
+            assert.deepEqual(spy.args, [[2], [1], ["drained"]]);
+        });
+    });
+
+    it("should cancel all running tasks", () => {
+        var queue = new ConcurrentTaskQueue({ concurrency: 2 });
+        var p1 = queue.push(() => delay(50));
+        var p2 = queue.push(() => delay(50));
+        var p3 = queue.push(() => delay(50));
+        return delay(10).then(() => {
+            queue.cancel();
+            return Promise.all([p1, p2, p3].map(p => p.then(() => "resolved", reason => reason.reason)));
+        }).then(results => {
+            assert.deepEqual(results, [cancellationTokenReasons.cancel, cancellationTokenReasons.cancel, cancellationTokenReasons.cancel]);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+﻿import * as assert from "assert";
+import * as stream from "stream";
+import { SequentialTaskQueue, QueueClosedError } from "../src/sequential-task-queue";
+import { pushAll, createWritable, createWritableStream } from "../src/streams";
+
+declare var WritableStream: any;
+
+function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function iterate<T>(items: T[], onRead?: (index: number) => void): AsyncIterable<T> {
+    var index = 0;
+    return {
+        [Symbol.asyncIterator]: () => ({
+            next: () => {
+                if (onRead)
+                    onRead(index);
+                return Promise.resolve(index < items.length ? { value: items[index++], done: false } : { value: undefined, done: true });
+            }
+        })
+    };
+}
+
+describe("pushAll", () => {
+
+    it("should push a task for every item of an AsyncIterable", () => {
+        var queue = new SequentialTaskQueue();
+        var res = [];
+        return pushAll(queue, iterate([1, 2, 3]), (n: number) => { res.push(n); }).then(count => {
+            assert.equal(count, 3);
+            assert.deepEqual(res, [1, 2, 3]);
+        });
+    });
+
+    it("should stop reading while the high water mark is reached", () => {
+        var queue = new SequentialTaskQueue();
+        var maxPending = 0;
+        var source = iterate([1, 2, 3, 4, 5], () => maxPending = Math.max(maxPending, queue.pendingCount));
+        return pushAll(queue, source, () => delay(5), { highWaterMark: 2 }).then(count => {
+            assert.equal(count, 5);
+            assert.equal(maxPending, 1);
+        });
+    });
+
+    it("should push a task for every item of a Readable", () => {
+        var queue = new SequentialTaskQueue();
+        var res = [];
+        var readable = new stream.PassThrough({ objectMode: true });
+        var p = pushAll(queue, readable, (s: string) => delay(5).then(() => res.push(s)), { highWaterMark: 1 });
+        ["a", "b", "c"].forEach(s => readable.write(s));
+        readable.end();
+        return p.then(count => {
+            assert.equal(count, 3);
+            assert.deepEqual(res, ["a", "b", "c"]);
+        });
+    });
+
+    it("should reject when a task fails", () => {
+        var queue = new SequentialTaskQueue();
+        return pushAll(queue, iterate([1, 2, 3]), (n: number) => { if (n === 2) throw "fail"; }).then(() => assert.ok(false), reason => {
+            assert.equal(reason, "fail");
+        });
+    });
+
+    it("should reject when the queue is closed while reading an AsyncIterable", () => {
+        var queue = new SequentialTaskQueue();
+        var source = iterate([1, 2, 3], index => {
+            if (index === 2)
+                queue.close();
+        });
+        return pushAll(queue, source, () => { }).then(() => assert.ok(false), err => {
+            assert(err instanceof QueueClosedError);
+        });
+    });
+
+    it("should reject when the queue is closed while reading a Readable", () => {
+        var queue = new SequentialTaskQueue();
+        var readable = new stream.PassThrough({ objectMode: true });
+        var p = pushAll(queue, readable, () => { });
+        readable.write("a");
+        queue.close();
+        readable.write("b");
+        return p.then(() => assert.ok(false), err => {
+            assert(err instanceof QueueClosedError);
+        });
+    });
+});
+
+describe("createWritable", () => {
+
+    it("should push a task for every chunk", () => {
+        var queue = new SequentialTaskQueue();
+        var res = [];
+        var writable = createWritable(queue, (s: string) => delay(5).then(() => res.push(s)));
+        return new Promise(resolve => {
+            writable.on("finish", resolve);
+            writable.write("a");
+            writable.write("b");
+            writable.end("c");
+        }).then(() => {
+            assert.deepEqual(res, ["a", "b", "c"]);
+        });
+    });
+
+    it("should emit an error when a task fails", () => {
+        var queue = new SequentialTaskQueue();
+        var writable = createWritable(queue, () => { throw new Error("fail"); });
+        return new Promise(resolve => {
+            writable.on("error", resolve);
+            writable.write("a");
+        }).then((err: Error) => {
+            assert.equal(err.message, "fail");
+        });
+    });
+});
+
+describe("createWritableStream", () => {
+
+    it("should push a task for every chunk", function () {
+        if (typeof WritableStream !== "function")
+            return this.skip();
+        var queue = new SequentialTaskQueue();
+        var res = [];
+        var writer = createWritableStream(queue, (s: string) => delay(5).then(() => res.push(s))).getWriter();
+        writer.write("a");
+        writer.write("b");
+        return writer.close().then(() => {
+            assert.deepEqual(res, ["a", "b"]);
+        });
+    });
+});
@@ -0,0 +1,22 @@
+﻿import * as assert from "assert";
+import * as path from "path";
+import * as ts from "typescript";
+
+describe("typings", () => {
+
+    it("should compile with strict: true", function () {
+        this.timeout(30000);
+        var fixture = path.join(__dirname, "fixtures", "strict-typings.ts");
+        var program = ts.createProgram([fixture], {
+            strict: true,
+            noEmit: true,
+            target: ts.ScriptTarget.ES2015,
+            module: ts.ModuleKind.CommonJS,
+            lib: ["lib.es2015.d.ts", "lib.esnext.asynciterable.d.ts"],
+            types: ["node"]
+        });
+        var diagnostics = ts.getPreEmitDiagnostics(program, program.getSourceFile(fixture))
+            .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+        assert.deepEqual(diagnostics, []);
+    });
+});
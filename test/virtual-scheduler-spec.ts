@@ -0,0 +1,139 @@
+﻿import * as assert from "assert";
+import { SequentialTaskQueue, cancellationTokenReasons } from "../src/sequential-task-queue";
+import { VirtualScheduler } from "../src/virtual-scheduler";
+import * as sinon from "sinon";
+
+describe("VirtualScheduler", () => {
+
+    it("should run callbacks in the order of their due times", () => {
+        var scheduler = new VirtualScheduler(1000);
+        var res = [];
+        scheduler.setTimeout(() => res.push(["b", scheduler.now()]), 20);
+        scheduler.setTimeout(() => res.push(["a", scheduler.now()]), 10);
+        scheduler.schedule(() => res.push(["now", scheduler.now()]));
+        scheduler.setTimeout(() => res.push(["c", scheduler.now()]), 20);
+        assert.equal(scheduler.pendingCount, 4);
+        assert.equal(scheduler.advance(15), 2);
+        assert.equal(scheduler.now(), 1015);
+        assert.equal(scheduler.advance(15), 2);
+        assert.deepEqual(res, [["now", 1000], ["a", 1010], ["b", 1020], ["c", 1020]]);
+    });
+
+    it("should run callbacks scheduled while flushing", () => {
+        var scheduler = new VirtualScheduler();
+        var res = [];
+        scheduler.schedule(() => {
+            res.push(1);
+            scheduler.schedule(() => res.push(2));
+            scheduler.setTimeout(() => res.push(3), 10);
+        });
+        assert.equal(scheduler.flush(), 2);
+        assert.deepEqual(res, [1, 2]);
+        assert(scheduler.step());
+        assert.equal(scheduler.now(), 10);
+        assert(!scheduler.step());
+        assert.deepEqual(res, [1, 2, 3]);
+    });
+
+    it("should cancel callbacks", () => {
+        var scheduler = new VirtualScheduler();
+        var spy = sinon.spy();
+        var handle = scheduler.setTimeout(spy, 10);
+        scheduler.clearTimeout(handle);
+        assert.equal(scheduler.runAll(), 0);
+        assert(!spy.called);
+    });
+
+    it("should throw if callbacks keep scheduling new ones", () => {
+        var scheduler = new VirtualScheduler();
+        var tick = () => scheduler.setTimeout(tick, 10);
+        tick();
+        assert.throws(() => scheduler.runAll(100));
+    });
+
+    describe("with SequentialTaskQueue", () => {
+
+        var scheduler: VirtualScheduler;
+        var queue: SequentialTaskQueue;
+
+        beforeEach(() => {
+            scheduler = new VirtualScheduler();
+            queue = new SequentialTaskQueue({ scheduler: scheduler });
+        });
+
+        it("should time out tasks", () => {
+            var p = queue.push(() => new Promise(() => { }), { timeout: 100 });
+            scheduler.flush();
+            scheduler.advance(99);
+            assert(queue.isRunning);
+            scheduler.advance(1);
+            assert(!queue.isRunning);
+            return p.then(() => assert.ok(false), reason => {
+                assert.equal(reason.reason, cancellationTokenReasons.timeout);
+            });
+        });
+
+        it("should run delayed tasks when they become due", () => {
+            var spy = sinon.spy();
+            queue.push(spy, { delay: 1000 });
+            scheduler.advance(999);
+            assert(!spy.called);
+            scheduler.advance(1);
+            assert(spy.calledOnce);
+            assert.equal(queue.size, 0);
+        });
+
+        it("should retry tasks after the backoff delay", () => {
+            var attempts = 0;
+            queue.push(() => { attempts++; throw "fail"; }, { retry: { attempts: 3, delay: 100 } });
+            scheduler.flush();
+            assert.equal(attempts, 1);
+            scheduler.advance(100);
+            assert.equal(attempts, 2);
+            scheduler.advance(199);
+            assert.equal(attempts, 2);
+            scheduler.advance(1);
+            assert.equal(attempts, 3);
+            assert.equal(queue.size, 0);
+        });
+
+        it("should limit the rate of tasks", () => {
+            queue = new SequentialTaskQueue({ scheduler: scheduler, rateLimit: { limit: 2, interval: 1000 } });
+            var spy = sinon.spy();
+            for (let i = 0; i < 3; i++)
+                queue.push(spy);
+            scheduler.flush();
+            assert.equal(spy.callCount, 2);
+            scheduler.advance(1000);
+            assert.equal(spy.callCount, 3);
+        });
+
+        it("should push recurring tasks", () => {
+            var spy = sinon.spy();
+            var task = queue.schedule(spy, { every: 100 });
+            // let the promise of the previous run settle before the next tick
+            var tick = () => {
+                scheduler.advance(100);
+                return Promise.resolve();
+            };
+            return tick().then(tick).then(tick).then(() => {
+                assert.equal(spy.callCount, 3);
+                task.stop();
+                assert.equal(scheduler.runAll(), 0);
+            });
+        });
+
+        it("should push debounced tasks", () => {
+            var spy = sinon.spy();
+            var fn = queue.debounce(spy, 100);
+            fn(1);
+            scheduler.advance(50);
+            fn(2);
+            scheduler.advance(99);
+            assert(!spy.called);
+            scheduler.advance(1);
+            assert(spy.calledOnce);
+            assert.equal(spy.args[0][0], 2);
+        });
+    });
+});